@@ -1,8 +1,21 @@
-import { App, FileSystemAdapter, Modal, Notice, Plugin, PluginSettingTab, Setting, TFolder } from "obsidian";
+import {
+  App,
+  FileSystemAdapter,
+  Menu,
+  Modal,
+  normalizePath,
+  Notice,
+  Plugin,
+  PluginSettingTab,
+  Setting,
+  TFolder
+} from "obsidian";
 import * as path from "path";
 import * as fs from "fs";
+import * as os from "os";
+import { ChildProcess, exec, spawn } from "child_process";
 import * as fsExtra from "fs-extra";
-import { createHash } from "crypto";
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scrypt } from "crypto";
 import micromatch from "micromatch";
 
 type SyncTask = {
@@ -11,403 +24,5777 @@ type SyncTask = {
   sourcePath: string;
   targetPath: string;
   enabled: boolean;
+  sources?: string[];
+  sourceBase?: string;
+  command?: CommandSource;
+  hostnames?: string[];
+  deviceSources?: Record<string, string>;
+  syncMode?: "additive" | "mirror" | "snapshot" | "bidirectional";
+  excludePatterns?: string[];
+  excludeMode?: "append" | "replace";
+  includePatterns?: string[];
+  includeMode?: "append" | "replace";
+  compareMode?: "mtime" | "hash";
+  respectIgnoreFiles?: boolean;
+  secretAction?: SecretAction;
+  encrypt?: boolean;
+  noteMode?: NoteMode;
+  notePatterns?: string[];
+  indexNote?: boolean;
+  watchSource?: boolean;
+  schedule?: TaskSchedule;
+  versions?: VersionPolicy;
+  onLocalEdit?: LocalEditPolicy;
+  preSyncHook?: SyncHook;
+  postSyncHook?: SyncHook;
+  snapshotRetention?: SnapshotRetention;
+};
+
+type CommandSource = {
+  command: string;
+  cwd?: string;
+  timeoutSeconds?: number;
+};
+
+type SyncHook = {
+  command: string;
+  timeoutSeconds?: number;
+  abortOnFailure?: boolean;
+};
+
+type HookStage = "pre-task" | "post-task" | "pre-run" | "post-run";
+
+type HookResult = {
+  stage: HookStage;
+  command: string;
+  ok: boolean;
+  cancelled?: boolean;
+  reason?: string;
+  output: string;
+  durationMs: number;
+};
+
+type SecretAction = "off" | "warn" | "redact" | "block";
+
+type NoteMode = "off" | "alongside" | "replace";
+
+type LocalEditPolicy = "overwrite" | "skip" | "backup";
+
+type LocalEdit = {
+  path: string;
+  action: LocalEditPolicy;
+};
+
+type SecretDetector = {
+  name: string;
+  regex: RegExp;
+  group?: number;
+};
+
+type SecretFinding = {
+  path: string;
+  line: number;
+  detector: string;
+  action: Exclude<SecretAction, "off">;
+};
+
+type SnapshotRetention = {
+  daily: number;
+  weekly: number;
+  monthly: number;
+};
+
+type Snapshot = {
+  name: string;
+  path: string;
+  createdAt: number;
+};
+
+type VersionPolicy = {
+  enabled: boolean;
+  maxCount: number;
+  maxAgeDays: number;
+  maxSizeMB: number;
+};
+
+type FileVersion = {
+  path: string;
+  createdAt: number;
+  size: number;
+};
+
+type FileMapping = {
+  external: string;
+  vaultFile: string;
+  encrypted: boolean;
+  note: boolean;
+  versions: FileVersion[];
+};
+
+type DiffOp = {
+  type: "same" | "add" | "remove";
+  text: string;
+};
+
+type DiffRow = {
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+  changed: boolean;
+};
+
+type RestoreItem = {
+  relPath: string;
+  from: string;
+  to: string;
+  encrypted: boolean;
+  exists: boolean;
+  versions: FileVersion[];
+};
+
+type TaskSchedule = {
+  mode: "none" | "interval" | "daily" | "cron";
+  intervalMinutes?: number;
+  dailyTime?: string;
+  cron?: string;
 };
 
 type ExternalSyncSettings = {
   tasks: SyncTask[];
   autoSyncOnLoad: boolean;
   excludePatterns: string[];
+  includePatterns: string[];
+  respectIgnoreFiles: boolean;
+  secretAction: SecretAction;
+  secretPatterns: string[];
+  blockUnscannedFiles: boolean;
   compareMode: "mtime" | "hash";
+  mirrorDeleteMode: "delete" | "system-trash" | "obsidian-trash";
   scheduleEnabled: boolean;
   scheduleMode: "interval" | "daily";
   intervalMinutes: number;
   dailyTime: string;
+  maxParallelJobs: number;
+  historyLimit: number;
+  logNoteEnabled: boolean;
+  logNotePath: string;
+  preRunHook?: SyncHook;
+  postRunHook?: SyncHook;
+};
+
+type SyncRules = {
+  excludePatterns: string[];
+  includePatterns: string[];
+  respectIgnoreFiles: boolean;
+  compareMode: "mtime" | "hash";
+  secretAction: SecretAction;
+  blockUnscannedFiles: boolean;
+  encrypt: boolean;
+  noteMode: NoteMode;
+  notePatterns: string[];
+  indexNote: boolean;
+};
+
+type IgnoreRule = {
+  base: string;
+  pattern: string;
+  negate: boolean;
+  dirOnly: boolean;
+};
+
+type RuntimeState = {
+  lastSuccessAt: Record<string, number>;
+  lastScheduledAt: Record<string, number>;
+  lastReport?: SyncRunReport;
+  history: RunHistoryEntry[];
+  conflicts: SyncConflict[];
+};
+
+type SyncConflict = {
+  taskId: string;
+  relPath: string;
+  copyPath: string;
+  detectedAt: number;
+};
+
+type ConflictChoice = "external" | "vault" | "both";
+
+type CronFields = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+};
+
+type TaskStats = {
+  copied: number;
+  skipped: number;
+  excluded: number;
+  deleted: number;
+  failed: number;
+  bytes: number;
+};
+
+type TaskRunResult =
+  | {
+      ok: true;
+      copied: string[];
+      deleted: string[];
+      conflicts: string[];
+      localEdits: LocalEdit[];
+      errors: FileError[];
+      warnings: SyncWarning[];
+      secrets: SecretFinding[];
+      stats: TaskStats;
+      hooks?: HookResult[];
+    }
+  | { ok: false; reason: string; cancelled?: boolean; hooks?: HookResult[] };
+
+type TaskReport = {
+  taskId: string;
+  taskName: string;
+  ok: boolean;
+  cancelled: boolean;
+  reason?: string;
+  stats: TaskStats;
+  copied: string[];
+  deleted: string[];
+  conflicts: string[];
+  localEdits: LocalEdit[];
+  errors: FileError[];
+  warnings: SyncWarning[];
+  secrets: SecretFinding[];
+  hooks: HookResult[];
+};
+
+type TaskFailure = {
+  taskName: string;
+  reason?: string;
+  errors: FileError[];
+  warnings?: SyncWarning[];
+};
+
+type SyncTrigger = "manual" | "ribbon" | "schedule" | "startup" | "watch";
+
+type SyncRunReport = {
+  trigger: SyncTrigger;
+  startedAt: number;
+  finishedAt: number;
+  tasks: TaskReport[];
+  hooks: HookResult[];
+};
+
+type RunHistoryEntry = {
+  trigger: SyncTrigger;
+  startedAt: number;
+  finishedAt: number;
+  tasks: Array<Pick<TaskReport, "taskId" | "taskName" | "ok" | "cancelled" | "reason" | "stats">>;
+};
+
+type SyncProgress = {
+  processed: number;
+  total: number;
+  bytes: number;
+};
+
+type SyncSignal = {
+  cancelled: boolean;
+  onCancel?: () => void;
+};
+
+type ShellResult = {
+  stdout: Buffer;
+  stderr: string;
+  failure: string | null;
+  cancelled: boolean;
+};
+
+type SyncJob = {
+  task: SyncTask;
+  onlyPaths?: string[];
+  signal: SyncSignal;
+  progress: SyncProgress;
+  waiters: Array<(result: TaskRunResult) => void>;
+};
+
+type TaskWatcher = {
+  sourcePath: string;
+  fallbackMinutes: number;
+  watcher: fs.FSWatcher | null;
+  pending: Set<string>;
+  debounceId: number | null;
+  fallbackId: number | null;
+};
+
+type SkipReason = "excluded" | "ignored" | "not-included";
+
+type SyncPlanAction = "create" | "overwrite" | "unchanged" | "excluded" | "delete" | "failed";
+
+type FileError = {
+  path: string;
+  operation: "read" | "compare" | "copy" | "delete";
+  code: string;
+  message: string;
+};
+
+type SyncWarning = {
+  path: string;
+  message: string;
+  code?: "STDERR";
 };
 
+type SyncPlanEntry = {
+  relPath: string;
+  source: string;
+  target: string;
+  action: SyncPlanAction;
+  size: number;
+  isDirectory: boolean;
+  skipReason?: SkipReason;
+  hash?: string;
+  error?: FileError;
+  linkFrom?: string;
+  redacted?: boolean;
+  notePath?: string;
+  localEdit?: boolean;
+  plainCopy?: string;
+};
+
+type SyncPlan = {
+  task: SyncTask;
+  source: string;
+  target: string;
+  sourceIsDirectory: boolean;
+  rules: SyncRules;
+  state: TaskState;
+  partialPaths?: string[];
+  snapshot?: { dir: string; partialDir: string; previous: string | null };
+  entries: SyncPlanEntry[];
+};
+
+type FileState = {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+  hash?: string;
+  targetSize: number;
+  targetMtimeMs: number;
+  redacted?: boolean;
+};
+
+type TaskState = {
+  files: Record<string, FileState>;
+  excluded?: Record<string, { reason: SkipReason; isDirectory: boolean }>;
+  roots?: { source: string; target: string };
+};
+
+type IndexNoteFile = {
+  relPath: string;
+  link: string | null;
+  size: number;
+  mtimeMs: number;
+  status: string;
+};
+
+const IGNORE_FILE_NAMES = [".gitignore", ".ignore"];
+
+const WATCH_DEBOUNCE_MS = 1500;
+
+const WATCHER_REFRESH_DELAY_MS = 1000;
+
+const SCHEDULE_TICK_MS = 30 * 1000;
+
 const DEFAULT_SETTINGS: ExternalSyncSettings = {
   tasks: [],
   autoSyncOnLoad: false,
   excludePatterns: ["**/node_modules/**", "**/.DS_Store"],
+  includePatterns: [],
+  respectIgnoreFiles: false,
+  secretAction: "off",
+  blockUnscannedFiles: false,
+  secretPatterns: [],
   compareMode: "mtime",
+  mirrorDeleteMode: "system-trash",
   scheduleEnabled: false,
   scheduleMode: "interval",
   intervalMinutes: 60,
-  dailyTime: "09:00"
+  dailyTime: "09:00",
+  maxParallelJobs: 1,
+  historyLimit: 100,
+  logNoteEnabled: false,
+  logNotePath: "External Sync Log.md"
 };
 
-export default class ExternalSyncBridgePlugin extends Plugin {
-  settings: ExternalSyncSettings;
-  private styleEl: HTMLStyleElement | null = null;
-  private scheduleIntervalId: number | null = null;
-  private scheduleTimeoutId: number | null = null;
+const VERSIONS_DIR = ".versions";
 
-  async onload() {
-    await this.loadSettings();
-    this.injectStyles();
+const DEFAULT_VERSION_POLICY: VersionPolicy = {
+  enabled: true,
+  maxCount: 10,
+  maxAgeDays: 0,
+  maxSizeMB: 0
+};
 
-    this.addRibbonIcon("sheets-in-box", "同步外部文件到 Vault", () => {
-      this.syncAllTasks();
-    });
+const SECRET_DETECTORS: SecretDetector[] = [
+  {
+    name: "私钥",
+    regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g
+  },
+  { name: "AWS Access Key", regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "GitHub Token", regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: "Slack Token", regex: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { name: "Google API Key", regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: "npm Token", regex: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  { name: "API Key (sk-)", regex: /\bsk-[A-Za-z0-9_-]{20,}\b/g },
+  { name: "npm/yarn 认证", regex: /_auth(?:Token)?\s*=\s*["']?([^\s"']+)/g, group: 1 },
+  {
+    name: "密码/密钥赋值",
+    regex: /\b(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)\b\s*[:=]\s*["']?([^\s"'#,;]+)/gi,
+    group: 1
+  }
+];
 
-    this.addCommand({
-      id: "external-sync-bridge-sync-now",
-      name: "立即同步外部文件",
-      callback: () => {
-        this.syncAllTasks();
-      }
-    });
+const SECRET_ACTION_LABELS: Record<SecretAction, string> = {
+  off: "关闭",
+  warn: "仅警告",
+  redact: "脱敏后写入",
+  block: "阻止同步"
+};
 
-    this.addSettingTab(new ExternalSyncSettingTab(this.app, this));
+const LOCAL_EDIT_LABELS: Record<LocalEditPolicy, string> = {
+  overwrite: "直接覆盖",
+  skip: "跳过并提醒",
+  backup: "备份后覆盖"
+};
 
-    this.setupSchedule();
+const LOCAL_EDIT_VERSION_LABEL = "local";
 
-    if (this.settings.autoSyncOnLoad) {
-      this.syncAllTasks();
+const MAX_SECRET_SCAN_BYTES = 2 * 1024 * 1024;
+
+const MAX_REPORTED_FILES = 1000;
+
+const MAX_DIFF_CELLS = 2000 * 2000;
+
+const DIFF_CONTEXT_LINES = 3;
+
+const DEFAULT_COMMAND_TIMEOUT_SECONDS = 60;
+
+const UNAPPROVED_COMMAND_REASON = "命令是新增或修改过的，尚未在本机确认，请手动同步一次并确认";
+
+const MAX_COMMAND_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+const MAX_HOOK_OUTPUT_CHARS = 4000;
+
+const HOOK_STAGE_LABELS: Record<HookStage, string> = {
+  "pre-task": "同步前钩子",
+  "post-task": "同步后钩子",
+  "pre-run": "全局同步前钩子",
+  "post-run": "全局同步后钩子"
+};
+
+const NOTE_SUFFIX = ".md";
+
+const INDEX_NOTE_NAME = "_index.md";
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  excluded: "命中排除规则",
+  ignored: ".gitignore",
+  "not-included": "未命中包含规则"
+};
+
+const CONFLICT_CHOICE_LABELS: Record<ConflictChoice, string> = {
+  external: "保留外部",
+  vault: "保留 Vault",
+  both: "保留两者"
+};
+
+const NOTE_LANGUAGES: Record<string, string> = {
+  ".json": "json",
+  ".jsonc": "json",
+  ".sh": "bash",
+  ".bash": "bash",
+  ".zsh": "bash",
+  ".bashrc": "bash",
+  ".zshrc": "bash",
+  ".profile": "bash",
+  ".env": "bash",
+  ".fish": "fish",
+  ".ps1": "powershell",
+  ".conf": "ini",
+  ".cfg": "ini",
+  ".ini": "ini",
+  ".gitconfig": "ini",
+  ".npmrc": "ini",
+  ".toml": "toml",
+  ".yml": "yaml",
+  ".yaml": "yaml",
+  ".xml": "xml",
+  ".plist": "xml",
+  ".html": "html",
+  ".css": "css",
+  ".scss": "scss",
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".ts": "typescript",
+  ".py": "python",
+  ".rb": "ruby",
+  ".lua": "lua",
+  ".vim": "vim",
+  ".vimrc": "vim",
+  ".sql": "sql",
+  ".csv": "csv",
+  ".txt": "",
+  ".log": ""
+};
+
+const ENCRYPTED_SUFFIX = ".enc";
+const ENCRYPTION_MAGIC = Buffer.from("ESB1");
+const ENCRYPTION_HEADER_BYTES = ENCRYPTION_MAGIC.length + 16 + 12 + 16;
+
+const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = {
+  daily: 7,
+  weekly: 4,
+  monthly: 12
+};
+
+const TRIGGER_LABELS: Record<SyncTrigger, string> = {
+  manual: "手动",
+  ribbon: "功能区按钮",
+  schedule: "定时",
+  startup: "启动时",
+  watch: "实时监听"
+};
+
+function hashCommand(command: string): string {
+  return createHash("sha256").update(command).digest("hex");
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatDateTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+}
+
+function expandPathVariables(
+  value: string,
+  hostname: string,
+  now = Date.now()
+): { ok: true; path: string } | { ok: false; reason: string } {
+  const missing: string[] = [];
+  const env = (name: string) => {
+    const resolved = name === "HOME" ? process.env.HOME ?? os.homedir() : process.env[name];
+    if (resolved === undefined || resolved === "") {
+      missing.push(name);
+      return "";
     }
+    return resolved;
+  };
+  const date = new Date(now);
+  const pad = (part: number) => String(part).padStart(2, "0");
+  const expanded = value
+    .replace(/^~(?=$|[\\/])/, () => os.homedir())
+    .replace(/\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => env(name))
+    .replace(/\$HOME(?![A-Za-z0-9_])/g, () => env("HOME"))
+    .replace(/\{hostname\}/g, () => hostname)
+    .replace(/\{platform\}/g, () => process.platform)
+    .replace(/\{date\}/g, () => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`);
+  if (missing.length > 0) {
+    return { ok: false, reason: `环境变量未定义：${missing.join("、")}` };
   }
+  return { ok: true, path: expanded };
+}
 
-  async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+function toGlobPath(value: string): string {
+  return process.platform === "win32" ? value.split(path.sep).join("/") : value;
+}
+
+function commonAncestor(paths: string[]): string {
+  const split = paths.map((value) => value.split("/"));
+  const shared: string[] = [];
+  for (let i = 0; split.every((segments) => i < segments.length && segments[i] === split[0][i]); i++) {
+    shared.push(split[0][i]);
   }
+  return shared.join("/") || "/";
+}
 
-  async saveSettings() {
-    await this.saveData(this.settings);
-    this.setupSchedule();
+function formatVersionStamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(
+    date.getMinutes()
+  )}${pad(date.getSeconds())}-${pad(date.getMilliseconds(), 3)}`;
+}
+
+function parseVersionStamp(name: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})-(\d{3})/.exec(name);
+  if (!match) {
+    return null;
   }
+  const [year, month, day, hours, minutes, seconds, ms] = match.slice(1).map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds, ms).getTime();
+}
 
-  exportSettings(): string {
-    return JSON.stringify(this.settings, null, 2);
+function foldPathCase(file: string): string {
+  return process.platform === "win32" || process.platform === "darwin" ? file.toLowerCase() : file;
+}
+
+function formatConflictName(fileName: string, timestamp: number, label = "conflict"): string {
+  const ext = path.extname(fileName);
+  const stem = ext ? fileName.slice(0, -ext.length) : fileName;
+  return `${stem}.${label}-${formatVersionStamp(timestamp)}${ext}`;
+}
+
+function isConflictCopy(fileName: string): boolean {
+  return /\.(conflict|external)-\d{8}-\d{6}-\d{3}(\.[^.]*)?$/.test(fileName);
+}
+
+function scanSecrets(text: string, detectors: SecretDetector[]): { findings: { line: number; detector: string }[]; redacted: string } {
+  const findings: { line: number; detector: string }[] = [];
+  let redacted = text;
+  for (const detector of detectors) {
+    for (const match of text.matchAll(detector.regex)) {
+      if (match[0] && (detector.group === undefined || match[detector.group])) {
+        findings.push({ line: text.slice(0, match.index).split("\n").length, detector: detector.name });
+      }
+    }
+    redacted = redacted.replace(detector.regex, (...args: unknown[]) => {
+      const match = args[0] as string;
+      const value = detector.group === undefined ? match : (args[detector.group] as string | undefined);
+      if (!value) {
+        return match;
+      }
+      const index = match.lastIndexOf(value);
+      return `${match.slice(0, index)}[REDACTED]${match.slice(index + value.length)}`;
+    });
   }
+  return { findings: findings.sort((a, b) => a.line - b.line), redacted };
+}
 
-  async importSettings(json: string) {
-    const parsed = JSON.parse(json) as ExternalSyncSettings;
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, parsed);
-    this.normalizeSettings();
-    await this.saveSettings();
+function encryptBuffer(plain: Buffer, key: Buffer, salt: Buffer): Buffer {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const body = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return Buffer.concat([ENCRYPTION_MAGIC, salt, iv, cipher.getAuthTag(), body]);
+}
+
+function readEncryptionSalt(data: Buffer): Buffer | null {
+  if (data.length < ENCRYPTION_HEADER_BYTES || !data.subarray(0, ENCRYPTION_MAGIC.length).equals(ENCRYPTION_MAGIC)) {
+    return null;
   }
+  return data.subarray(ENCRYPTION_MAGIC.length, ENCRYPTION_MAGIC.length + 16);
+}
 
-  private normalizeSettings() {
-    const settings = this.settings;
-    settings.tasks = Array.isArray(settings.tasks) ? settings.tasks : [];
-    settings.excludePatterns = Array.isArray(settings.excludePatterns) ? settings.excludePatterns : [];
-    settings.compareMode = settings.compareMode === "hash" ? "hash" : "mtime";
-    settings.scheduleEnabled = Boolean(settings.scheduleEnabled);
-    settings.scheduleMode = settings.scheduleMode === "daily" ? "daily" : "interval";
-    settings.intervalMinutes = Number.isFinite(settings.intervalMinutes) ? settings.intervalMinutes : 60;
-    settings.dailyTime = typeof settings.dailyTime === "string" ? settings.dailyTime : "09:00";
+function decryptBuffer(data: Buffer, key: Buffer): Buffer {
+  const ivStart = ENCRYPTION_MAGIC.length + 16;
+  const iv = data.subarray(ivStart, ivStart + 12);
+  const tag = data.subarray(ivStart + 12, ENCRYPTION_HEADER_BYTES);
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(ENCRYPTION_HEADER_BYTES)), decipher.final()]);
+}
+
+function getNoteLanguage(filePath: string): string | null {
+  const base = path.basename(filePath).toLowerCase();
+  const ext = path.extname(base);
+  return NOTE_LANGUAGES[ext || base] ?? NOTE_LANGUAGES[base] ?? null;
+}
+
+function renderFileNote(
+  content: string,
+  language: string,
+  meta: { source: string; size: number; mtimeMs: number; hash: string; syncedAt: number }
+): string {
+  const longestFence = Math.max(0, ...Array.from(content.matchAll(/`{3,}/g), (match) => match[0].length));
+  const fence = "`".repeat(Math.max(3, longestFence + 1));
+  return [
+    "---",
+    `source: ${JSON.stringify(meta.source)}`,
+    `size: ${meta.size}`,
+    `mtime: ${new Date(meta.mtimeMs).toISOString()}`,
+    `hash: ${meta.hash}`,
+    `synced: ${new Date(meta.syncedAt).toISOString()}`,
+    "---",
+    "",
+    `${fence}${language}`,
+    content.endsWith("\n") ? content.slice(0, -1) : content,
+    fence,
+    ""
+  ].join("\n");
+}
+
+function extractNoteBody(note: string): string {
+  const lines = note.split("\n");
+  const frontmatterEnd = lines[0] === "---" ? lines.indexOf("---", 1) : -1;
+  const start = lines.findIndex((line, index) => index > frontmatterEnd && /^`{3,}/.test(line));
+  if (start < 0) {
+    return note;
   }
+  const fence = /^`+/.exec(lines[start])?.[0] ?? "```";
+  const end = lines.lastIndexOf(fence);
+  return end > start ? `${lines.slice(start + 1, end).join("\n")}\n` : note;
+}
 
-  onunload() {
-    this.clearSchedule();
-    if (this.styleEl && this.styleEl.parentElement) {
-      this.styleEl.parentElement.removeChild(this.styleEl);
-      this.styleEl = null;
+function diffLines(left: string[], right: string[]): DiffOp[] | null {
+  let start = 0;
+  while (start < left.length && start < right.length && left[start] === right[start]) {
+    start++;
+  }
+  let leftEnd = left.length;
+  let rightEnd = right.length;
+  while (leftEnd > start && rightEnd > start && left[leftEnd - 1] === right[rightEnd - 1]) {
+    leftEnd--;
+    rightEnd--;
+  }
+  const a = left.slice(start, leftEnd);
+  const b = right.slice(start, rightEnd);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return null;
+  }
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
     }
   }
-
-  private injectStyles() {
-    const style = document.createElement("style");
-    style.id = "external-sync-bridge-styles";
-    style.textContent = this.loadStylesFromFile() ?? this.getDefaultStyles();
-    document.head.appendChild(style);
-    this.styleEl = style;
+  const ops: DiffOp[] = left.slice(0, start).map((text) => ({ type: "same", text }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: "same", text: a[i++] });
+      j++;
+    } else if (j >= b.length || (i < a.length && table[(i + 1) * width + j] >= table[i * width + j + 1])) {
+      ops.push({ type: "remove", text: a[i++] });
+    } else {
+      ops.push({ type: "add", text: b[j++] });
+    }
   }
+  ops.push(...left.slice(leftEnd).map((text): DiffOp => ({ type: "same", text })));
+  return ops;
+}
 
-  private loadStylesFromFile(): string | null {
-    const vaultBasePath = this.getVaultBasePath();
-    if (!vaultBasePath) {
-      return null;
+function toDiffRows(ops: DiffOp[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+  for (let index = 0; index < ops.length; ) {
+    if (ops[index].type === "same") {
+      rows.push({
+        left: { line: leftLine++, text: ops[index].text },
+        right: { line: rightLine++, text: ops[index].text },
+        changed: false
+      });
+      index++;
+      continue;
     }
-    const pluginDir = path.join(vaultBasePath, this.app.vault.configDir, "plugins", this.manifest.id);
-    const cssPath = path.join(pluginDir, "styles.css");
-    if (!fs.existsSync(cssPath)) {
-      return null;
+    const removed: string[] = [];
+    const added: string[] = [];
+    for (; index < ops.length && ops[index].type !== "same"; index++) {
+      (ops[index].type === "remove" ? removed : added).push(ops[index].text);
     }
-    try {
-      return fs.readFileSync(cssPath, "utf8");
-    } catch (error) {
-      console.warn("[External Sync Bridge] 读取 styles.css 失败", error);
-      return null;
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({
+        left: k < removed.length ? { line: leftLine++, text: removed[k] } : undefined,
+        right: k < added.length ? { line: rightLine++, text: added[k] } : undefined,
+        changed: true
+      });
     }
   }
+  return rows;
+}
 
-  private getDefaultStyles(): string {
-    return `
-.external-sync-task-editor {
-  border: 1px solid var(--background-modifier-border);
-  border-radius: 8px;
-  padding: 12px;
-  margin-bottom: 12px;
-  background: var(--background-secondary);
+function formatSnapshotName(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}${pad(
+    date.getMinutes()
+  )}`;
 }
 
-.external-sync-inline-note {
-  font-size: 12px;
-  color: var(--text-muted);
-  margin-top: 6px;
+function parseSnapshotName(name: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2})(\d{2})(?:-\d+)?$/.exec(name);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hours, minutes] = match.slice(1).map(Number);
+  return new Date(year, month - 1, day, hours, minutes).getTime();
 }
 
-.external-sync-test-row {
-  display: flex;
-  gap: 8px;
-  align-items: center;
+function formatDuration(ms: number): string {
+  if (ms < 60 * 1000) {
+    return `${(ms / 1000).toFixed(1)} 秒`;
+  }
+  return `${Math.floor(ms / 60000)} 分 ${Math.round((ms % 60000) / 1000)} 秒`;
 }
 
-.external-sync-test-row input {
-  flex: 1;
+function formatReportText(report: SyncRunReport): string {
+  const lines = [
+    `同步报告 ${formatDateTime(report.startedAt)}（${TRIGGER_LABELS[report.trigger]}，耗时 ${formatDuration(
+      report.finishedAt - report.startedAt
+    )}）`
+  ];
+  for (const hook of report.hooks) {
+    lines.push(formatHookResult(hook), ...(hook.output ? hook.output.split("\n").map((line) => `  ${line}`) : []));
+  }
+  for (const task of report.tasks) {
+    const status = task.ok ? "成功" : task.cancelled ? "已取消" : `失败：${task.reason}`;
+    const { copied, skipped, excluded, deleted, failed, bytes } = task.stats;
+    lines.push(
+      `${task.taskName}：${status}；复制 ${copied}（${formatBytes(bytes)}），未变化 ${skipped}，排除 ${excluded}，删除 ${deleted}，出错 ${failed}`
+    );
+    lines.push(...task.deleted.map((file) => `  已删除：${file}`));
+    lines.push(...task.conflicts.map((file) => `  冲突：${file}`));
+    lines.push(...task.localEdits.map((edit) => `  Vault 中被修改：${edit.path}（${LOCAL_EDIT_LABELS[edit.action]}）`));
+    lines.push(...task.errors.map((error) => `  出错：${formatFileError(error)}`));
+    lines.push(...task.warnings.map((warning) => `  提示：${formatSyncWarning(warning)}`));
+    lines.push(...task.secrets.map((finding) => `  敏感信息：${formatSecretFinding(finding)}`));
+    for (const hook of task.hooks) {
+      lines.push(`  ${formatHookResult(hook)}`, ...(hook.output ? hook.output.split("\n").map((line) => `    ${line}`) : []));
+    }
+  }
+  return lines.join("\n");
 }
-`;
+
+function formatLogNote(history: RunHistoryEntry[]): string {
+  const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  const lines = [
+    "---",
+    "type: external-sync-log",
+    `updated: ${new Date().toISOString()}`,
+    `runs: ${history.length}`,
+    "---",
+    "",
+    "# 同步日志",
+    "",
+    "| 开始时间 | 触发方式 | 耗时 | 任务 | 结果 | 复制 | 未变化 | 排除 | 删除 | 出错 | 传输 |",
+    "| --- | --- | --- | --- | --- | ---: | ---: | ---: | ---: | ---: | ---: |"
+  ];
+  for (const entry of [...history].reverse()) {
+    for (const task of entry.tasks) {
+      const status = task.ok ? "成功" : task.cancelled ? "已取消" : `失败：${task.reason ?? ""}`;
+      const { copied, skipped, excluded, deleted, failed, bytes } = task.stats;
+      const cells = [
+        formatDateTime(entry.startedAt),
+        TRIGGER_LABELS[entry.trigger],
+        formatDuration(entry.finishedAt - entry.startedAt),
+        cell(task.taskName),
+        cell(status),
+        String(copied),
+        String(skipped),
+        String(excluded),
+        String(deleted),
+        String(failed),
+        formatBytes(bytes)
+      ];
+      lines.push(`| ${cells.join(" | ")} |`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function renderIndexNote(
+  meta: { taskName: string; source: string; fileSet: string; updatedAt: number },
+  files: IndexNoteFile[],
+  excluded: { relPath: string; reason: string }[]
+): string {
+  const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  const lines = [
+    "---",
+    "type: external-sync-index",
+    `task: ${JSON.stringify(meta.taskName)}`,
+    `source: ${JSON.stringify(meta.source)}`,
+    `files: ${files.length}`,
+    `excluded: ${excluded.length}`,
+    `fileset: ${meta.fileSet}`,
+    `updated: ${new Date(meta.updatedAt).toISOString()}`,
+    "---",
+    "",
+    `# ${meta.taskName} 文件索引`,
+    "",
+    `源路径：\`${meta.source}\`，共 ${files.length} 个文件，排除 ${excluded.length} 项。`
+  ];
+  const folders = new Map<string, IndexNoteFile[]>();
+  for (const file of [...files].sort((a, b) => a.relPath.localeCompare(b.relPath))) {
+    const folder = path.posix.dirname(file.relPath);
+    folders.set(folder, [...(folders.get(folder) ?? []), file]);
+  }
+  for (const folder of [...folders.keys()].sort((a, b) => (a === "." ? -1 : b === "." ? 1 : a.localeCompare(b)))) {
+    lines.push("", `## ${folder === "." ? "根目录" : folder}`, "", "| 文件 | 大小 | 修改时间 | 状态 |", "| --- | ---: | --- | --- |");
+    for (const file of folders.get(folder) ?? []) {
+      const name = path.posix.basename(file.relPath);
+      const label = file.link ? `[[${cell(file.link)}\\|${cell(name)}]]` : cell(name);
+      lines.push(`| ${label} | ${formatBytes(file.size)} | ${formatDateTime(file.mtimeMs)} | ${cell(file.status)} |`);
+    }
+  }
+  if (excluded.length > 0) {
+    lines.push("", "## 已排除", "", "| 路径 | 原因 |", "| --- | --- |");
+    for (const item of [...excluded].sort((a, b) => a.relPath.localeCompare(b.relPath))) {
+      lines.push(`| ${cell(item.relPath)} | ${cell(item.reason)} |`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      return null;
+    }
+    const step = match[2] ? Number(match[2]) : 1;
+    let start = min;
+    let end = max;
+    if (match[1] !== "*") {
+      const [from, to] = match[1].split("-").map(Number);
+      start = from;
+      end = to ?? (match[2] ? max : from);
+    }
+    if (step < 1 || start < min || end > max || start > end) {
+      return null;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseCron(expression: string): CronFields | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return null;
+  }
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const days = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const weekdays = parseCronField(fields[4], 0, 7);
+  if (!minutes || !hours || !days || !months || !weekdays) {
+    return null;
+  }
+  if (weekdays.has(7)) {
+    weekdays.delete(7);
+    weekdays.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: !fields[2].startsWith("*"),
+    weekdaysRestricted: !fields[4].startsWith("*")
+  };
+}
+
+function nextCronTime(cron: CronFields, after: number): number | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    const dayMatch = cron.days.has(date.getDate());
+    const weekdayMatch = cron.weekdays.has(date.getDay());
+    const dayOk = cron.daysRestricted && cron.weekdaysRestricted ? dayMatch || weekdayMatch : dayMatch && weekdayMatch;
+    if (!dayOk) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date.getTime();
+  }
+  return null;
+}
+
+function computeNextRun(schedule: TaskSchedule, after: number): number | null {
+  if (schedule.mode === "interval") {
+    const minutes = Math.max(1, Number(schedule.intervalMinutes) || 1);
+    return after + minutes * 60 * 1000;
+  }
+  if (schedule.mode === "daily") {
+    const [hourStr, minuteStr] = (schedule.dailyTime || "09:00").split(":");
+    const hour = Math.min(23, Math.max(0, Number(hourStr) || 0));
+    const minute = Math.min(59, Math.max(0, Number(minuteStr) || 0));
+    const next = new Date(after);
+    next.setHours(hour, minute, 0, 0);
+    if (next.getTime() <= after) {
+      next.setDate(next.getDate() + 1);
+    }
+    return next.getTime();
+  }
+  if (schedule.mode === "cron") {
+    const cron = parseCron(schedule.cron ?? "");
+    return cron ? nextCronTime(cron, after) : null;
+  }
+  return null;
+}
+
+const FILE_OPERATION_LABELS: Record<FileError["operation"], string> = {
+  read: "读取",
+  compare: "比较",
+  copy: "复制",
+  delete: "删除"
+};
+
+function toFileError(relPath: string, operation: FileError["operation"], error: unknown): FileError {
+  const err = error as NodeJS.ErrnoException;
+  return {
+    path: relPath,
+    operation,
+    code: err?.code ?? "UNKNOWN",
+    message: err?.message ?? String(error)
+  };
+}
+
+function formatFileError(error: FileError): string {
+  return `${error.path}：${FILE_OPERATION_LABELS[error.operation]}失败（${error.code}）${error.message}`;
+}
+
+function formatSyncWarning(warning: SyncWarning): string {
+  return `${warning.path}：${warning.message}`;
+}
+
+function unscannedWarning(relPath: string, reason: string, blocked: boolean): SyncWarning {
+  return { path: relPath, message: `${reason}，未扫描敏感信息${blocked ? "，已阻止同步" : ""}` };
+}
+
+function formatSecretFinding(finding: SecretFinding): string {
+  return `${finding.path}:${finding.line} ${finding.detector}（${SECRET_ACTION_LABELS[finding.action]}）`;
+}
+
+function formatHookResult(hook: HookResult): string {
+  const status = hook.ok ? "成功" : hook.cancelled ? "已取消" : `失败（${hook.reason}）`;
+  return `${HOOK_STAGE_LABELS[hook.stage]}：${status}，耗时 ${formatDuration(hook.durationMs)} · ${hook.command}`;
+}
+
+function emptyStats(): TaskStats {
+  return { copied: 0, skipped: 0, excluded: 0, deleted: 0, failed: 0, bytes: 0 };
+}
+
+function killProcessTree(child: ChildProcess) {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+  if (process.platform === "win32") {
+    exec(`taskkill /pid ${child.pid} /T /F`, { windowsHide: true });
+    return;
+  }
+  try {
+    process.kill(-child.pid, "SIGKILL");
+  } catch {
+    child.kill("SIGKILL");
+  }
+}
+
+function runShellCommand(
+  command: string,
+  options: { cwd: string; env?: NodeJS.ProcessEnv; timeoutSeconds: number; signal?: SyncSignal }
+): Promise<ShellResult> {
+  const { signal, timeoutSeconds } = options;
+  if (signal?.cancelled) {
+    return Promise.resolve({ stdout: Buffer.alloc(0), stderr: "", failure: "已取消", cancelled: true });
+  }
+  return new Promise((resolve) => {
+    const child = spawn(command, {
+      cwd: options.cwd,
+      env: options.env,
+      shell: true,
+      detached: process.platform !== "win32",
+      windowsHide: true
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let outputBytes = 0;
+    let failure: string | null = null;
+    let cancelled = false;
+    let settled = false;
+    const stop = (reason: string) => {
+      failure = failure ?? reason;
+      killProcessTree(child);
+    };
+    const timeoutId = window.setTimeout(() => stop(`超时（${timeoutSeconds} 秒）`), timeoutSeconds * 1000);
+    if (signal) {
+      signal.onCancel = () => {
+        cancelled = failure === null;
+        stop("已取消");
+      };
+    }
+    const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_COMMAND_OUTPUT_BYTES) {
+        stop(`输出超过 ${formatBytes(MAX_COMMAND_OUTPUT_BYTES)}`);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    child.stdout.on("data", collect(stdout));
+    child.stderr.on("data", collect(stderr));
+    const finish = (code: number | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      window.clearTimeout(timeoutId);
+      if (signal) {
+        signal.onCancel = undefined;
+      }
+      resolve({
+        stdout: Buffer.concat(stdout),
+        stderr: Buffer.concat(stderr).toString("utf8").trim(),
+        failure: failure ?? (code === 0 ? null : code === null ? "被意外终止" : `退出码 ${code}`),
+        cancelled
+      });
+    };
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      failure = failure ?? `无法执行（${error.code ?? error.message}）`;
+      finish(null);
+    });
+    child.on("close", finish);
+  });
+}
+
+class SyncCancelledError extends Error {
+  constructor() {
+    super("同步已取消");
+  }
+}
+
+export default class ExternalSyncBridgePlugin extends Plugin {
+  settings: ExternalSyncSettings;
+  private styleEl: HTMLStyleElement | null = null;
+  private scheduleIntervalId: number | null = null;
+  private scheduleBases = new Map<string, { key: string; at: number }>();
+  private lastAttemptAt = new Map<string, number>();
+  private statusBarEl: HTMLElement | null = null;
+  private statusBarUpdatedAt = 0;
+  private jobQueue: SyncJob[] = [];
+  private runningJobs: SyncJob[] = [];
+  private runHookSignals = new Set<SyncSignal>();
+  private runtime: RuntimeState = { lastSuccessAt: {}, lastScheduledAt: {}, history: [], conflicts: [] };
+  private watchers = new Map<string, TaskWatcher>();
+  private watcherRefreshId: number | null = null;
+  private encryptionSalt: Buffer | null = null;
+  private encryptionKeys = new Map<string, Buffer>();
+  private locallyModified = new Map<string, Set<string>>();
+  private localEditRoots: { day: string; roots: string[] } | null = null;
+  private taskStateCache = new Map<string, TaskState>();
+
+  async onload() {
+    await this.loadSettings();
+    await this.loadRuntimeState();
+    this.injectStyles();
+
+    const statusBarEl = this.addStatusBarItem();
+    statusBarEl.addClass("external-sync-status");
+    this.registerDomEvent(statusBarEl, "click", (event) => this.onStatusBarClick(event));
+    this.statusBarEl = statusBarEl;
+    this.updateStatusBar(true);
+
+    this.addRibbonIcon("sheets-in-box", "同步外部文件到 Vault", () => {
+      this.syncAllTasks("ribbon");
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-sync-now",
+      name: "立即同步外部文件",
+      callback: () => {
+        this.syncAllTasks();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-cancel",
+      name: "取消当前同步",
+      callback: () => {
+        this.cancelSync();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-last-report",
+      name: "查看上次同步报告",
+      callback: () => {
+        this.showLastReport();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-open-log",
+      name: "打开同步日志笔记",
+      callback: () => {
+        this.openLogNote();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-file-versions",
+      name: "查看当前文件的历史版本",
+      callback: () => {
+        this.showVersionsForActiveFile();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-diff-active",
+      name: "对比当前文件与外部源文件",
+      callback: () => {
+        this.showDiffForActiveFile();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-prune-snapshots",
+      name: "清理过期快照",
+      callback: () => {
+        this.pruneAllSnapshots();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-decrypt",
+      name: "解密还原加密备份",
+      callback: () => {
+        this.showDecryptModal();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-conflicts",
+      name: "处理双向同步冲突",
+      callback: () => {
+        this.showConflictsModal();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-restore",
+      name: "还原到外部位置",
+      callback: () => {
+        this.showRestoreModal();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-preview",
+      name: "预览同步计划（不写入）",
+      callback: () => {
+        this.previewAllTasks();
+      }
+    });
+
+    this.addCommand({
+      id: "external-sync-bridge-rebuild-state",
+      name: "重建同步状态缓存",
+      callback: () => {
+        this.rebuildAllTaskStates();
+      }
+    });
+
+    this.addSettingTab(new ExternalSyncSettingTab(this.app, this));
+
+    this.setupSchedule();
+    this.runDueTasks();
+    this.setupWatchers();
+    this.registerEvent(this.app.vault.on("modify", (file) => this.checkLocalEdit(file.path)));
+
+    if (this.settings.autoSyncOnLoad) {
+      this.syncAllTasks("startup");
+    }
+  }
+
+  async loadSettings() {
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+  }
+
+  async saveSettings() {
+    await this.saveData(this.settings);
+    this.localEditRoots = null;
+    this.setupSchedule();
+    this.queueWatcherRefresh();
+  }
+
+  exportSettings(): string {
+    return JSON.stringify(this.settings, null, 2);
+  }
+
+  async importSettings(json: string) {
+    const parsed = JSON.parse(json) as ExternalSyncSettings;
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, parsed);
+    this.normalizeSettings();
+    await this.saveSettings();
+  }
+
+  private normalizeSettings() {
+    const settings = this.settings;
+    settings.tasks = Array.isArray(settings.tasks) ? settings.tasks : [];
+    settings.excludePatterns = Array.isArray(settings.excludePatterns) ? settings.excludePatterns : [];
+    settings.includePatterns = Array.isArray(settings.includePatterns) ? settings.includePatterns : [];
+    settings.respectIgnoreFiles = Boolean(settings.respectIgnoreFiles);
+    settings.secretAction = settings.secretAction in SECRET_ACTION_LABELS ? settings.secretAction : "off";
+    settings.secretPatterns = Array.isArray(settings.secretPatterns) ? settings.secretPatterns : [];
+    settings.blockUnscannedFiles = Boolean(settings.blockUnscannedFiles);
+    settings.compareMode = settings.compareMode === "hash" ? "hash" : "mtime";
+    settings.mirrorDeleteMode =
+      settings.mirrorDeleteMode === "delete" || settings.mirrorDeleteMode === "obsidian-trash"
+        ? settings.mirrorDeleteMode
+        : "system-trash";
+    settings.scheduleEnabled = Boolean(settings.scheduleEnabled);
+    settings.scheduleMode = settings.scheduleMode === "daily" ? "daily" : "interval";
+    settings.intervalMinutes = Number.isFinite(settings.intervalMinutes) ? settings.intervalMinutes : 60;
+    settings.dailyTime = typeof settings.dailyTime === "string" ? settings.dailyTime : "09:00";
+    settings.maxParallelJobs = Number.isFinite(settings.maxParallelJobs) ? settings.maxParallelJobs : 1;
+    settings.historyLimit = Number.isFinite(settings.historyLimit) ? settings.historyLimit : 100;
+    settings.logNoteEnabled = Boolean(settings.logNoteEnabled);
+    settings.logNotePath =
+      typeof settings.logNotePath === "string" && settings.logNotePath.trim()
+        ? settings.logNotePath
+        : DEFAULT_SETTINGS.logNotePath;
+  }
+
+  onunload() {
+    this.clearSchedule();
+    this.cancelSync(true);
+    if (this.watcherRefreshId !== null) {
+      window.clearTimeout(this.watcherRefreshId);
+      this.watcherRefreshId = null;
+    }
+    for (const taskId of Array.from(this.watchers.keys())) {
+      this.stopWatcher(taskId);
+    }
+    if (this.styleEl && this.styleEl.parentElement) {
+      this.styleEl.parentElement.removeChild(this.styleEl);
+      this.styleEl = null;
+    }
+  }
+
+  private injectStyles() {
+    const style = document.createElement("style");
+    style.id = "external-sync-bridge-styles";
+    style.textContent = this.loadStylesFromFile() ?? this.getDefaultStyles();
+    document.head.appendChild(style);
+    this.styleEl = style;
+  }
+
+  private loadStylesFromFile(): string | null {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      return null;
+    }
+    const cssPath = path.join(this.getPluginDir(vaultBasePath), "styles.css");
+    if (!fs.existsSync(cssPath)) {
+      return null;
+    }
+    try {
+      return fs.readFileSync(cssPath, "utf8");
+    } catch (error) {
+      console.warn("[External Sync Bridge] 读取 styles.css 失败", error);
+      return null;
+    }
+  }
+
+  private getDefaultStyles(): string {
+    return `
+.external-sync-task-editor {
+  border: 1px solid var(--background-modifier-border);
+  border-radius: 8px;
+  padding: 12px;
+  margin-bottom: 12px;
+  background: var(--background-secondary);
+}
+
+.external-sync-inline-note {
+  font-size: 12px;
+  color: var(--text-muted);
+  margin-top: 6px;
+}
+
+.external-sync-test-row {
+  display: flex;
+  gap: 8px;
+  align-items: center;
+}
+
+.external-sync-test-row input {
+  flex: 1;
+}
+
+.external-sync-status {
+  cursor: pointer;
+}
+
+.external-sync-status-error {
+  color: var(--text-error);
+}
+
+.external-sync-diff-modal {
+  width: min(1100px, 90vw);
+}
+
+.external-sync-diff-meta td,
+.external-sync-diff-meta th {
+  padding: 2px 8px;
+  font-size: 12px;
+  text-align: left;
+  word-break: break-all;
+}
+
+.external-sync-diff {
+  width: 100%;
+  border-collapse: collapse;
+  font-family: var(--font-monospace);
+  font-size: 12px;
+  table-layout: fixed;
+}
+
+.external-sync-diff td {
+  padding: 0 6px;
+  vertical-align: top;
+  white-space: pre-wrap;
+  word-break: break-all;
+}
+
+.external-sync-diff-line {
+  width: 3.5em;
+  color: var(--text-faint);
+  text-align: right;
+  user-select: none;
+}
+
+.external-sync-diff-removed {
+  background: rgba(var(--color-red-rgb), 0.15);
+}
+
+.external-sync-diff-added {
+  background: rgba(var(--color-green-rgb), 0.15);
+}
+
+.external-sync-diff-empty {
+  background: var(--background-secondary);
+}
+
+.external-sync-diff-gap td {
+  color: var(--text-muted);
+  text-align: center;
+  background: var(--background-secondary-alt);
+}
+
+.external-sync-hook-output {
+  max-height: 200px;
+  overflow: auto;
+  white-space: pre-wrap;
+  font-size: var(--font-smaller);
+}
+`;
+  }
+
+  private clearSchedule() {
+    if (this.scheduleIntervalId !== null) {
+      window.clearInterval(this.scheduleIntervalId);
+      this.scheduleIntervalId = null;
+    }
+  }
+
+  private setupSchedule() {
+    this.clearSchedule();
+    const now = Date.now();
+    for (const task of this.settings.tasks) {
+      const key = JSON.stringify(this.getEffectiveSchedule(task));
+      const base = this.scheduleBases.get(task.id);
+      if (!base) {
+        this.scheduleBases.set(task.id, { key, at: task.id in this.runtime.lastScheduledAt ? 0 : now });
+      } else if (base.key !== key) {
+        this.scheduleBases.set(task.id, { key, at: now });
+      }
+    }
+    if (!this.settings.tasks.some((task) => this.getEffectiveSchedule(task))) {
+      return;
+    }
+    this.scheduleIntervalId = window.setInterval(() => {
+      this.runDueTasks();
+    }, SCHEDULE_TICK_MS);
+  }
+
+  getEffectiveSchedule(task: SyncTask): TaskSchedule | null {
+    if (task.schedule) {
+      return task.schedule.mode === "none" ? null : task.schedule;
+    }
+    if (!this.settings.scheduleEnabled) {
+      return null;
+    }
+    return {
+      mode: this.settings.scheduleMode,
+      intervalMinutes: this.settings.intervalMinutes,
+      dailyTime: this.settings.dailyTime
+    };
+  }
+
+  getNextRunAt(task: SyncTask): number | null {
+    const schedule = this.getEffectiveSchedule(task);
+    if (!this.isTaskActive(task) || !schedule) {
+      return null;
+    }
+    const baseAt = this.scheduleBases.get(task.id)?.at;
+    const lastRun = Math.max(
+      this.runtime.lastScheduledAt[task.id] ?? baseAt ?? Date.now(),
+      baseAt ?? 0,
+      this.lastAttemptAt.get(task.id) ?? 0
+    );
+    return computeNextRun(schedule, lastRun);
+  }
+
+  describeNextRun(task: SyncTask): string {
+    const schedule = this.getEffectiveSchedule(task);
+    if (!schedule) {
+      return "未设置定时";
+    }
+    if (!task.enabled) {
+      return "任务未启用";
+    }
+    if (!this.appliesToThisDevice(task)) {
+      return "本机不适用";
+    }
+    const nextRunAt = this.getNextRunAt(task);
+    if (nextRunAt === null) {
+      return schedule.mode === "cron" ? "Cron 表达式无效" : "未设置定时";
+    }
+    if (nextRunAt <= Date.now()) {
+      return "下次运行：即将补跑";
+    }
+    return `下次运行：${formatDateTime(nextRunAt)}`;
+  }
+
+  private async runDueTasks() {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      return;
+    }
+    const now = Date.now();
+    const dueTasks = this.settings.tasks.filter((task) => {
+      const nextRunAt = this.getNextRunAt(task);
+      return nextRunAt !== null && nextRunAt <= now;
+    });
+    if (dueTasks.length === 0) {
+      return;
+    }
+    dueTasks.forEach((task) => this.lastAttemptAt.set(task.id, now));
+    const report = await this.runTasks(dueTasks, "schedule");
+    for (const taskReport of report.tasks) {
+      if (taskReport.ok) {
+        this.runtime.lastScheduledAt[taskReport.taskId] = now;
+      }
+    }
+    await this.saveRuntimeState();
+  }
+
+  private getRuntimeStatePath(vaultBasePath: string): string {
+    return path.join(this.getPluginDir(vaultBasePath), "runtime.json");
+  }
+
+  private async loadRuntimeState() {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      return;
+    }
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(this.getRuntimeStatePath(vaultBasePath), "utf8"));
+      this.runtime = Object.assign({ lastSuccessAt: {}, lastScheduledAt: {}, history: [], conflicts: [] }, parsed);
+      if (!parsed.lastScheduledAt) {
+        this.runtime.lastScheduledAt = { ...this.runtime.lastSuccessAt };
+      }
+      if (this.runtime.lastReport) {
+        this.runtime.lastReport.trigger = this.runtime.lastReport.trigger ?? "manual";
+        this.runtime.lastReport.hooks = this.runtime.lastReport.hooks ?? [];
+      }
+      for (const task of this.runtime.lastReport?.tasks ?? []) {
+        task.errors = task.errors ?? [];
+        task.warnings = task.warnings ?? [];
+        task.secrets = task.secrets ?? [];
+        task.copied = task.copied ?? [];
+        task.conflicts = task.conflicts ?? [];
+        task.localEdits = task.localEdits ?? [];
+        task.hooks = task.hooks ?? [];
+        task.stats = Object.assign(emptyStats(), task.stats);
+      }
+    } catch {
+      this.runtime = { lastSuccessAt: {}, lastScheduledAt: {}, history: [], conflicts: [] };
+    }
+  }
+
+  private async saveRuntimeState() {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      return;
+    }
+    await fsExtra.outputFile(this.getRuntimeStatePath(vaultBasePath), JSON.stringify(this.runtime, null, 2));
+  }
+
+  private queueWatcherRefresh() {
+    if (this.watcherRefreshId !== null) {
+      window.clearTimeout(this.watcherRefreshId);
+    }
+    this.watcherRefreshId = window.setTimeout(() => {
+      this.watcherRefreshId = null;
+      this.setupWatchers();
+    }, WATCHER_REFRESH_DELAY_MS);
+  }
+
+  private setupWatchers() {
+    const watched = new Map(
+      this.settings.tasks
+        .filter(
+          (task) =>
+            this.isTaskActive(task) && task.watchSource && !task.sources && !task.command && this.resolveSourcePath(task)
+        )
+        .map((task) => [task.id, task])
+    );
+    for (const [taskId, entry] of Array.from(this.watchers.entries())) {
+      const task = watched.get(taskId);
+      if (
+        !task ||
+        this.resolveSourcePath(task) !== entry.sourcePath ||
+        this.getWatchFallbackMinutes(task) !== entry.fallbackMinutes
+      ) {
+        this.stopWatcher(taskId);
+      }
+    }
+    for (const task of watched.values()) {
+      const sourcePath = this.resolveSourcePath(task);
+      if (sourcePath && !this.watchers.has(task.id)) {
+        const entry: TaskWatcher = {
+          sourcePath,
+          fallbackMinutes: this.getWatchFallbackMinutes(task),
+          watcher: null,
+          pending: new Set(),
+          debounceId: null,
+          fallbackId: null
+        };
+        this.watchers.set(task.id, entry);
+        this.attachWatcher(task, entry);
+      }
+    }
+  }
+
+  private stopWatcher(taskId: string) {
+    const entry = this.watchers.get(taskId);
+    if (!entry) {
+      return;
+    }
+    entry.watcher?.close();
+    if (entry.debounceId !== null) {
+      window.clearTimeout(entry.debounceId);
+    }
+    if (entry.fallbackId !== null) {
+      window.clearInterval(entry.fallbackId);
+    }
+    this.watchers.delete(taskId);
+  }
+
+  private attachWatcher(task: SyncTask, entry: TaskWatcher): boolean {
+    const source = entry.sourcePath;
+    try {
+      const sourceIsDirectory = fs.statSync(source).isDirectory();
+      const watchRoot = sourceIsDirectory ? source : path.dirname(source);
+      const watcher = fs.watch(watchRoot, { recursive: sourceIsDirectory }, (_event, fileName) => {
+        if (!fs.existsSync(source)) {
+          this.fallBackToSchedule(task, entry, "源路径已不存在");
+          return;
+        }
+        const changed = fileName ? fileName.toString().split(path.sep).join("/") : "";
+        if (!sourceIsDirectory) {
+          if (!changed || changed === path.basename(source)) {
+            this.queueWatchedChange(task, entry, "");
+          }
+          return;
+        }
+        if (changed && this.isWatchedPathExcluded(task, source, changed)) {
+          return;
+        }
+        this.queueWatchedChange(task, entry, changed);
+      });
+      watcher.on("error", (error) => {
+        console.warn(`[External Sync Bridge] 监听出错: ${source}`, error);
+        this.fallBackToSchedule(task, entry, "监听出错");
+      });
+      entry.watcher = watcher;
+      return true;
+    } catch (error) {
+      console.warn(`[External Sync Bridge] 无法监听: ${source}`, error);
+      this.fallBackToSchedule(task, entry, "无法监听源路径");
+      return false;
+    }
+  }
+
+  private isWatchedPathExcluded(task: SyncTask, source: string, relPath: string): boolean {
+    const rules = this.getEffectiveRules(this.settings.tasks.find((t) => t.id === task.id) ?? task);
+    const segments = relPath.split("/");
+    for (let i = 1; i < segments.length; i++) {
+      if (this.matchRules(segments.slice(0, i).join("/"), true, rules)) {
+        return true;
+      }
+    }
+    let isDirectory = true;
+    try {
+      isDirectory = fs.statSync(path.join(source, relPath)).isDirectory();
+    } catch {
+      // 已删除的路径无法判断类型，按目录处理以免被包含规则误过滤
+    }
+    return this.matchRules(relPath, isDirectory, rules) !== null;
+  }
+
+  private queueWatchedChange(task: SyncTask, entry: TaskWatcher, relPath: string) {
+    entry.pending.add(relPath);
+    if (entry.debounceId !== null) {
+      window.clearTimeout(entry.debounceId);
+    }
+    entry.debounceId = window.setTimeout(() => {
+      entry.debounceId = null;
+      const onlyPaths = Array.from(entry.pending);
+      entry.pending.clear();
+      this.runWatchedSync(task, onlyPaths);
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  private async runWatchedSync(watchedTask: SyncTask, onlyPaths?: string[]) {
+    const vaultBasePath = this.getVaultBasePath();
+    const task = this.settings.tasks.find((t) => t.id === watchedTask.id);
+    if (!vaultBasePath || !task || !this.isTaskActive(task)) {
+      return;
+    }
+    const [result] = (await this.executeRun([task], "watch", { onlyPaths })).tasks;
+    if (!result.ok && !result.cancelled) {
+      new Notice(`实时同步失败：${task.name || task.id}（${result.reason}）`);
+    } else if (result.errors.length > 0) {
+      new Notice(`实时同步：${task.name || task.id} 有 ${result.errors.length} 个文件出错，点击状态栏查看报告。`);
+    } else if (result.secrets.length > 0) {
+      new Notice(`实时同步：${task.name || task.id} 发现 ${result.secrets.length} 处疑似敏感信息，点击状态栏查看报告。`);
+    }
+  }
+
+  private fallBackToSchedule(task: SyncTask, entry: TaskWatcher, reason: string) {
+    entry.watcher?.close();
+    entry.watcher = null;
+    if (entry.fallbackId !== null) {
+      return;
+    }
+    const minutes = entry.fallbackMinutes;
+    new Notice(`任务「${task.name || task.id}」的实时监听已失效（${reason}），改为每 ${minutes} 分钟定时同步。`);
+    entry.fallbackId = window.setInterval(() => {
+      if (!fs.existsSync(entry.sourcePath)) {
+        return;
+      }
+      if (this.attachWatcher(task, entry) && entry.fallbackId !== null) {
+        window.clearInterval(entry.fallbackId);
+        entry.fallbackId = null;
+        new Notice(`任务「${task.name || task.id}」已恢复实时监听。`);
+      }
+      this.runWatchedSync(task);
+    }, minutes * 60 * 1000);
+  }
+
+  private getWatchFallbackMinutes(task: SyncTask): number {
+    const schedule = this.getEffectiveSchedule(task);
+    const minutes = schedule?.mode === "interval" ? schedule.intervalMinutes : this.settings.intervalMinutes;
+    return Math.max(1, Number(minutes) || 1);
+  }
+
+  getVaultBasePath(): string | null {
+    const adapter = this.app.vault.adapter;
+    if (!(adapter instanceof FileSystemAdapter)) {
+      return null;
+    }
+    return adapter.getBasePath();
+  }
+
+  private validateTask(
+    task: SyncTask,
+    vaultBasePath: string
+  ): { ok: true; source: string; target: string } | { ok: false; reason: string } {
+    const resolvedSource = this.resolveTaskPath(task, "source");
+    if (!resolvedSource.ok) {
+      return resolvedSource;
+    }
+    const resolvedTarget = this.resolveTaskPath(task, "target");
+    if (!resolvedTarget.ok) {
+      return resolvedTarget;
+    }
+
+    if (task.command && !task.command.command.trim()) {
+      return { ok: false, reason: "命令为空" };
+    }
+
+    const source = path.normalize(resolvedSource.path);
+    if (!fs.existsSync(source)) {
+      return { ok: false, reason: task.command ? "工作目录不存在" : task.sources ? "源基准目录不存在" : "源路径不存在" };
+    }
+    if ((task.sources || task.command) && !fs.statSync(source).isDirectory()) {
+      return { ok: false, reason: task.command ? "工作目录必须是文件夹" : "源基准路径必须是文件夹" };
+    }
+
+    const targetPath = resolvedTarget.path;
+    if (path.isAbsolute(targetPath)) {
+      return { ok: false, reason: "目标路径必须是 Vault 内相对路径" };
+    }
+
+    const targetBase = path.normalize(targetPath);
+    const targetAbs = path.join(vaultBasePath, targetBase);
+    const rel = path.relative(vaultBasePath, targetAbs);
+    if (rel.startsWith("..")) {
+      return { ok: false, reason: "目标路径必须在 Vault 内" };
+    }
+
+    if (task.command) {
+      if (task.syncMode === "snapshot" || task.syncMode === "bidirectional") {
+        return { ok: false, reason: task.syncMode === "snapshot" ? "命令源不支持快照模式" : "命令源不支持双向同步" };
+      }
+      const targetEndsWithSlash = targetPath.endsWith("/") || targetPath.endsWith(path.sep);
+      if (targetEndsWithSlash || (fs.existsSync(targetAbs) && fs.statSync(targetAbs).isDirectory())) {
+        return { ok: false, reason: "命令源的目标必须是文件路径" };
+      }
+      return { ok: true, source, target: targetAbs };
+    }
+
+    if (task.syncMode === "bidirectional") {
+      const rules = this.getEffectiveRules(task);
+      if (task.sources) {
+        return { ok: false, reason: "双向同步仅支持单个文件或文件夹源" };
+      }
+      if (rules.encrypt) {
+        return { ok: false, reason: "双向同步不支持加密存储" };
+      }
+      if (rules.noteMode !== "off") {
+        return { ok: false, reason: "双向同步不支持生成笔记" };
+      }
+      if (rules.secretAction === "redact") {
+        return { ok: false, reason: "双向同步不支持脱敏写入" };
+      }
+    }
+
+    if (task.syncMode === "snapshot") {
+      if (fs.existsSync(targetAbs) && !fs.statSync(targetAbs).isDirectory()) {
+        return { ok: false, reason: "快照模式的目标必须是文件夹" };
+      }
+      return { ok: true, source, target: targetAbs };
+    }
+
+    const sourceStat = fs.statSync(source);
+    let finalTarget = targetAbs;
+    if (sourceStat.isFile()) {
+      const targetEndsWithSlash = targetPath.endsWith("/") || targetPath.endsWith(path.sep);
+      if (targetEndsWithSlash || (fs.existsSync(targetAbs) && fs.statSync(targetAbs).isDirectory())) {
+        finalTarget = path.join(targetAbs, path.basename(source));
+      }
+    } else if (sourceStat.isDirectory()) {
+      if (fs.existsSync(targetAbs) && fs.statSync(targetAbs).isFile()) {
+        return { ok: false, reason: "源为目录时目标不能是文件" };
+      }
+    }
+
+    return { ok: true, source, target: finalTarget };
+  }
+
+  getDeviceName(): string {
+    return os.hostname();
+  }
+
+  appliesToThisDevice(task: SyncTask): boolean {
+    const device = this.getDeviceName().toLowerCase();
+    const hostnames = (task.hostnames ?? []).map((name) => name.trim().toLowerCase()).filter((name) => name.length > 0);
+    return hostnames.length === 0 || hostnames.includes(device);
+  }
+
+  isTaskActive(task: SyncTask): boolean {
+    return task.enabled && this.appliesToThisDevice(task);
+  }
+
+  private resolveTaskPath(
+    task: SyncTask,
+    kind: "source" | "target"
+  ): { ok: true; path: string } | { ok: false; reason: string } {
+    const device = this.getDeviceName();
+    if (kind === "source" && task.command) {
+      return task.command.cwd?.trim() ? expandPathVariables(task.command.cwd.trim(), device) : { ok: true, path: os.homedir() };
+    }
+    if (kind === "source" && task.sources) {
+      const resolved = this.resolveSourcePatterns(task);
+      return resolved.ok ? { ok: true, path: resolved.base } : resolved;
+    }
+    const override =
+      kind === "source"
+        ? Object.entries(task.deviceSources ?? {}).find(
+            ([name, value]) => name.trim().toLowerCase() === device.toLowerCase() && value.trim()
+          )
+        : undefined;
+    const raw = override ? override[1] : kind === "source" ? task.sourcePath : task.targetPath;
+    if (!raw.trim()) {
+      return { ok: false, reason: kind === "source" ? "源路径为空" : "目标路径为空" };
+    }
+    return expandPathVariables(raw, device);
+  }
+
+  private resolveSourcePatterns(
+    task: SyncTask
+  ): { ok: true; patterns: string[]; base: string } | { ok: false; reason: string } {
+    const device = this.getDeviceName();
+    const patterns: string[] = [];
+    for (const raw of task.sources ?? []) {
+      if (!raw.trim()) {
+        continue;
+      }
+      const expanded = expandPathVariables(raw.trim(), device);
+      if (!expanded.ok) {
+        return expanded;
+      }
+      if (!path.isAbsolute(expanded.path)) {
+        return { ok: false, reason: `源路径必须是绝对路径：${raw.trim()}` };
+      }
+      patterns.push(toGlobPath(expanded.path));
+    }
+    if (patterns.length === 0) {
+      return { ok: false, reason: "源路径为空" };
+    }
+    if (task.sourceBase?.trim()) {
+      const base = expandPathVariables(task.sourceBase.trim(), device);
+      return base.ok ? { ok: true, patterns, base: path.normalize(base.path) } : base;
+    }
+    const bases = patterns.map((pattern) => {
+      const scan = micromatch.scan(pattern);
+      return scan.isGlob ? scan.base : path.posix.dirname(pattern);
+    });
+    return { ok: true, patterns, base: path.normalize(commonAncestor(bases)) };
+  }
+
+  async matchSourcePatterns(
+    task: SyncTask
+  ): Promise<{ ok: true; base: string; matches: string[] } | { ok: false; reason: string }> {
+    const resolved = this.resolveSourcePatterns(task);
+    if (!resolved.ok) {
+      return resolved;
+    }
+    const matches = new Set<string>();
+    for (const pattern of resolved.patterns) {
+      const scan = micromatch.scan(pattern);
+      if (!scan.isGlob) {
+        if (fs.existsSync(pattern)) {
+          matches.add(path.normalize(pattern));
+        }
+        continue;
+      }
+      const glob: string = scan.glob;
+      const maxDepth = scan.isGlobstar || glob.includes("**") ? Infinity : glob.split("/").length;
+      const walk = async (dir: string, rel: string, depth: number) => {
+        const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+          const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+          const entryPath = path.join(dir, entry.name);
+          if (micromatch.isMatch(entryRel, glob, { dot: true })) {
+            matches.add(entryPath);
+          } else if (entry.isDirectory() && depth + 1 < maxDepth) {
+            await walk(entryPath, entryRel, depth + 1);
+          }
+        }
+      };
+      await walk(path.normalize(scan.base || "/"), "", 0);
+    }
+    return { ok: true, base: resolved.base, matches: Array.from(matches).sort() };
+  }
+
+  resolveSourcePath(task: SyncTask): string | null {
+    const resolved = this.resolveTaskPath(task, "source");
+    return resolved.ok ? path.normalize(resolved.path) : null;
+  }
+
+  resolveTargetPath(task: SyncTask): string | null {
+    const resolved = this.resolveTaskPath(task, "target");
+    return resolved.ok ? path.normalize(resolved.path) : null;
+  }
+
+  private async hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash("sha256");
+      const stream = fs.createReadStream(filePath);
+      stream.on("error", (error) => reject(error));
+      stream.on("data", (chunk) => hash.update(chunk));
+      stream.on("end", () => resolve(hash.digest("hex")));
+    });
+  }
+
+  async syncAllTasks(trigger: SyncTrigger = "manual") {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      new Notice("此插件仅支持桌面端文件系统适配器。");
+      return;
+    }
+
+    const enabledTasks = this.settings.tasks.filter((task) => this.isTaskActive(task));
+    if (enabledTasks.length === 0) {
+      new Notice("没有启用的同步任务。");
+      return;
+    }
+    if (trigger !== "startup" && !(await this.confirmCommands(enabledTasks, true))) {
+      new Notice("已取消同步：命令未获确认。");
+      return;
+    }
+
+    await this.runTasks(enabledTasks, trigger);
+  }
+
+  private async executeRun(
+    tasks: SyncTask[],
+    trigger: SyncTrigger,
+    options: { onlyPaths?: string[]; runHooks?: boolean } = {}
+  ): Promise<SyncRunReport> {
+    const startedAt = Date.now();
+    const vaultBasePath = this.getVaultBasePath();
+    const hooks: HookResult[] = [];
+    const runEnv = (): Record<string, string> => ({
+      EXTERNAL_SYNC_VAULT: vaultBasePath ?? "",
+      EXTERNAL_SYNC_TRIGGER: trigger,
+      EXTERNAL_SYNC_TASKS: tasks.map((task) => task.name || task.id).join("\n")
+    });
+    const runSignal: SyncSignal = { cancelled: false };
+    const runGlobalHook = async (hook: SyncHook, stage: HookStage, basePath: string, env: Record<string, string>) => {
+      this.runHookSignals.add(runSignal);
+      try {
+        return await this.runHook(hook, stage, basePath, env, runSignal);
+      } finally {
+        this.runHookSignals.delete(runSignal);
+      }
+    };
+    const preRunHook = options.runHooks ? this.settings.preRunHook : undefined;
+    const preRun =
+      preRunHook?.command.trim() && vaultBasePath
+        ? await runGlobalHook(preRunHook, "pre-run", vaultBasePath, runEnv())
+        : null;
+    if (preRun) {
+      hooks.push(preRun);
+    }
+    const abortReason = preRun?.cancelled
+      ? "已取消"
+      : preRun && !preRun.ok && preRunHook?.abortOnFailure
+        ? `全局同步前钩子失败（${preRun.reason}），已中止`
+        : null;
+    const results: TaskRunResult[] = abortReason
+      ? tasks.map(() => ({ ok: false, reason: abortReason, cancelled: preRun?.cancelled }))
+      : await Promise.all(tasks.map((task) => this.enqueueSync(task, options.onlyPaths)));
+    const postRunHook = options.runHooks ? this.settings.postRunHook : undefined;
+    if (!abortReason && postRunHook?.command.trim() && vaultBasePath) {
+      const changed = tasks.flatMap((task, index) => {
+        const result = results[index];
+        return result.ok ? this.toVaultPaths(task, result.copied, vaultBasePath) : [];
+      });
+      hooks.push(
+        await runGlobalHook(postRunHook, "post-run", vaultBasePath, {
+          ...runEnv(),
+          EXTERNAL_SYNC_STATUS: results.every((result) => result.ok) ? "ok" : "failed",
+          EXTERNAL_SYNC_CHANGED_FILES: changed.join("\n")
+        })
+      );
+    }
+    const report: SyncRunReport = {
+      trigger,
+      startedAt,
+      finishedAt: Date.now(),
+      hooks,
+      tasks: tasks.map((task, index) => {
+        const result = results[index];
+        return {
+          taskId: task.id,
+          taskName: task.name || task.id,
+          ok: result.ok,
+          cancelled: !result.ok && Boolean(result.cancelled),
+          reason: result.ok ? undefined : result.reason,
+          stats: result.ok ? result.stats : emptyStats(),
+          copied: result.ok ? result.copied : [],
+          deleted: result.ok ? result.deleted : [],
+          conflicts: result.ok ? result.conflicts : [],
+          localEdits: result.ok ? result.localEdits : [],
+          errors: result.ok ? result.errors : [],
+          warnings: result.ok ? result.warnings : [],
+          secrets: result.ok ? result.secrets : [],
+          hooks: result.hooks ?? []
+        };
+      })
+    };
+    tasks.forEach((task, index) => {
+      const result = results[index];
+      if (result.ok) {
+        const skipped = result.localEdits.filter((edit) => edit.action === "skip").map((edit) => edit.path);
+        this.locallyModified.set(task.id, new Set(skipped));
+      }
+    });
+    this.runtime.lastReport = report;
+    await this.recordHistory(report);
+    this.updateStatusBar(true);
+    return report;
+  }
+
+  private async recordHistory(report: SyncRunReport) {
+    this.runtime.history.push({
+      trigger: report.trigger,
+      startedAt: report.startedAt,
+      finishedAt: report.finishedAt,
+      tasks: report.tasks.map(({ taskId, taskName, ok, cancelled, reason, stats }) => ({
+        taskId,
+        taskName,
+        ok,
+        cancelled,
+        reason,
+        stats
+      }))
+    });
+    const limit = Math.max(1, Math.floor(this.settings.historyLimit) || 1);
+    this.runtime.history = this.runtime.history.slice(-limit);
+    await this.saveRuntimeState();
+
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath || !this.settings.logNoteEnabled) {
+      return;
+    }
+    try {
+      await fsExtra.outputFile(path.join(vaultBasePath, this.getLogNotePath()), formatLogNote(this.runtime.history));
+    } catch (error) {
+      console.warn("[External Sync Bridge] 写入同步日志笔记失败", error);
+    }
+  }
+
+  private getLogNotePath(): string {
+    const notePath = normalizePath(this.settings.logNotePath.trim() || DEFAULT_SETTINGS.logNotePath);
+    return notePath.endsWith(".md") ? notePath : `${notePath}.md`;
+  }
+
+  private async openLogNote() {
+    const notePath = this.getLogNotePath();
+    if (!(await this.app.vault.adapter.exists(notePath))) {
+      new Notice(this.settings.logNoteEnabled ? "同步日志笔记尚未生成，完成一次同步后再试。" : "未启用同步日志笔记。");
+      return;
+    }
+    await this.app.workspace.openLinkText(notePath, "", false);
+  }
+
+  private async runTasks(tasks: SyncTask[], trigger: SyncTrigger) {
+    let successCount = 0;
+    let failCount = 0;
+    let cancelCount = 0;
+    let errorCount = 0;
+    let secretCount = 0;
+    let conflictCount = 0;
+    let localEditCount = 0;
+    const failures: TaskFailure[] = [];
+    const deletions: string[] = [];
+
+    const report = await this.executeRun(tasks, trigger, { runHooks: true });
+    const hookFailureCount = [...report.hooks, ...report.tasks.flatMap((task) => task.hooks)].filter(
+      (hook) => !hook.ok && !hook.cancelled
+    ).length;
+    for (const taskReport of report.tasks) {
+      if (taskReport.ok) {
+        successCount++;
+        deletions.push(...taskReport.deleted.map((file) => `${taskReport.taskName}: ${file}`));
+        secretCount += taskReport.secrets.length;
+        conflictCount += taskReport.conflicts.length;
+        localEditCount += taskReport.localEdits.length;
+        errorCount += taskReport.errors.length;
+        const stderr = taskReport.warnings.filter((warning) => warning.code === "STDERR");
+        if (taskReport.errors.length > 0 || stderr.length > 0) {
+          failures.push({ taskName: taskReport.taskName, errors: taskReport.errors, warnings: stderr });
+        }
+      } else if (taskReport.cancelled) {
+        cancelCount++;
+      } else {
+        failCount++;
+        failures.push({ taskName: taskReport.taskName, reason: taskReport.reason, errors: [] });
+      }
+    }
+
+    const deletedNote = deletions.length > 0 ? `，删除 ${deletions.length} 个文件` : "";
+    const cancelNote = cancelCount > 0 ? `，取消 ${cancelCount} 项` : "";
+    const errorNote = errorCount > 0 ? `，${errorCount} 个文件出错` : "";
+    const secretNote = secretCount > 0 ? `，发现 ${secretCount} 处疑似敏感信息（点击状态栏查看报告）` : "";
+    const conflictNote = conflictCount > 0 ? `，${conflictCount} 个冲突待处理` : "";
+    const localEditNote = localEditCount > 0 ? `，${localEditCount} 个文件在 Vault 中被修改过（点击状态栏查看报告）` : "";
+    const hookNote = hookFailureCount > 0 ? `，${hookFailureCount} 个钩子执行失败（点击状态栏查看报告）` : "";
+    if (successCount > 0) {
+      new Notice(
+        `同步完成：成功 ${successCount} 项，失败 ${failCount} 项${cancelNote}${deletedNote}${errorNote}${secretNote}${conflictNote}${localEditNote}${hookNote}。`
+      );
+    } else if (cancelCount > 0 && failCount === 0) {
+      new Notice(`同步已取消：${cancelCount} 项。`);
+    } else {
+      new Notice(`同步失败：失败 ${failCount} 项${cancelNote}。`);
+    }
+
+    if (failures.length > 0) {
+      console.warn("[External Sync Bridge] 失败详情", failures);
+    }
+    if (failures.length > 0 || deletions.length > 0) {
+      this.showFailureModal(failures, deletions);
+    }
+    return report;
+  }
+
+  async syncSingleTask(task: SyncTask) {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      new Notice("此插件仅支持桌面端文件系统适配器。");
+      return;
+    }
+    if (!this.appliesToThisDevice(task)) {
+      new Notice(`任务「${task.name || task.id}」不适用于本机（${this.getDeviceName()}）。`);
+      return;
+    }
+    if (!(await this.confirmCommands([task]))) {
+      new Notice("已取消同步：命令未获确认。");
+      return;
+    }
+    const [result] = (await this.executeRun([task], "manual")).tasks;
+    if (result.ok) {
+      const deletedNote = result.deleted.length > 0 ? `，删除 ${result.deleted.length} 个文件` : "";
+      const errorNote = result.errors.length > 0 ? `，${result.errors.length} 个文件出错` : "";
+      const secretNote =
+        result.secrets.length > 0 ? `，发现 ${result.secrets.length} 处疑似敏感信息（点击状态栏查看报告）` : "";
+      const conflictNote = result.conflicts.length > 0 ? `，${result.conflicts.length} 个冲突待处理` : "";
+      const localEditNote =
+        result.localEdits.length > 0 ? `，${result.localEdits.length} 个文件在 Vault 中被修改过（点击状态栏查看报告）` : "";
+      const hookFailures = result.hooks.filter((hook) => !hook.ok && !hook.cancelled).length;
+      const hookNote = hookFailures > 0 ? `，${hookFailures} 个钩子执行失败（点击状态栏查看报告）` : "";
+      new Notice(
+        `任务同步完成：${task.name || task.id}${deletedNote}${errorNote}${secretNote}${conflictNote}${localEditNote}${hookNote}`
+      );
+      const stderr = result.warnings.filter((warning) => warning.code === "STDERR");
+      if (result.deleted.length > 0 || result.errors.length > 0 || stderr.length > 0) {
+        this.showFailureModal(
+          result.errors.length > 0 || stderr.length > 0
+            ? [{ taskName: result.taskName, errors: result.errors, warnings: stderr }]
+            : [],
+          result.deleted.map((file) => `${result.taskName}: ${file}`)
+        );
+      }
+    } else if (result.cancelled) {
+      new Notice(`任务同步已取消：${task.name || task.id}`);
+    } else {
+      new Notice(`任务同步失败：${task.name || task.id}`);
+      this.showFailureModal([{ taskName: result.taskName, reason: result.reason, errors: [] }]);
+    }
+  }
+
+  private enqueueSync(task: SyncTask, onlyPaths?: string[]): Promise<TaskRunResult> {
+    return new Promise((resolve) => {
+      const queued = this.jobQueue.find((job) => job.task.id === task.id);
+      if (queued) {
+        queued.task = task;
+        queued.onlyPaths =
+          queued.onlyPaths && onlyPaths ? Array.from(new Set([...queued.onlyPaths, ...onlyPaths])) : undefined;
+        queued.waiters.push(resolve);
+      } else {
+        this.jobQueue.push({
+          task,
+          onlyPaths,
+          signal: { cancelled: false },
+          progress: { processed: 0, total: 0, bytes: 0 },
+          waiters: [resolve]
+        });
+      }
+      this.pumpQueue();
+    });
+  }
+
+  private pumpQueue() {
+    const limit = Math.max(1, Number(this.settings.maxParallelJobs) || 1);
+    while (this.runningJobs.length < limit) {
+      const index = this.jobQueue.findIndex(
+        (job) =>
+          !this.runningJobs.some(
+            (running) => running.task.id === job.task.id || this.targetsOverlap(running.task, job.task)
+          )
+      );
+      if (index === -1) {
+        return;
+      }
+      const [job] = this.jobQueue.splice(index, 1);
+      this.runningJobs.push(job);
+      this.runJob(job);
+      this.updateStatusBar(true);
+    }
+  }
+
+  private async runJob(job: SyncJob) {
+    const vaultBasePath = this.getVaultBasePath();
+    let result: TaskRunResult;
+    if (!vaultBasePath) {
+      result = { ok: false, reason: "此插件仅支持桌面端文件系统适配器" };
+    } else {
+      result = await this.syncTaskWithHooks(job.task, vaultBasePath, {
+        onlyPaths: job.onlyPaths,
+        signal: job.signal,
+        onProgress: (progress) => {
+          job.progress = progress;
+          this.updateStatusBar();
+        }
+      });
+    }
+    this.runningJobs.splice(this.runningJobs.indexOf(job), 1);
+    job.waiters.forEach((resolve) => resolve(result));
+    this.pumpQueue();
+    this.updateStatusBar(true);
+  }
+
+  private targetsOverlap(a: SyncTask, b: SyncTask): boolean {
+    const normalize = (target: string) => path.normalize(target).split(path.sep).join("/").replace(/\/+$/, "");
+    const first = normalize(this.resolveTargetPath(a) ?? a.targetPath);
+    const second = normalize(this.resolveTargetPath(b) ?? b.targetPath);
+    return first === second || first.startsWith(`${second}/`) || second.startsWith(`${first}/`);
+  }
+
+  private updateStatusBar(force = false) {
+    const el = this.statusBarEl;
+    const now = Date.now();
+    if (!el || (!force && now - this.statusBarUpdatedAt < 200)) {
+      return;
+    }
+    this.statusBarUpdatedAt = now;
+    el.removeClass("external-sync-status-error");
+
+    if (this.runningJobs.length > 0) {
+      const names = this.runningJobs.map((job) => job.task.name || job.task.id).join("、");
+      const processed = this.runningJobs.reduce((sum, job) => sum + job.progress.processed, 0);
+      const total = this.runningJobs.reduce((sum, job) => sum + job.progress.total, 0);
+      const bytes = this.runningJobs.reduce((sum, job) => sum + job.progress.bytes, 0);
+      const queued = this.jobQueue.length > 0 ? ` · 排队 ${this.jobQueue.length}` : "";
+      el.setText(`同步中：${names} ${processed}/${total} · ${formatBytes(bytes)}${queued}`);
+      el.setAttr("aria-label", "点击取消同步或查看上次报告");
+      return;
+    }
+
+    const report = this.runtime.lastReport;
+    el.setAttr("aria-label", "点击查看上次同步报告");
+    if (!report) {
+      el.setText("外部同步：尚未运行");
+      return;
+    }
+    const finished = formatDateTime(report.finishedAt);
+    const time = finished.slice(0, 10) === formatDateTime(now).slice(0, 10) ? finished.slice(11) : finished;
+    const failed = report.tasks.filter((task) => !task.ok && !task.cancelled).length;
+    if (failed > 0) {
+      el.addClass("external-sync-status-error");
+      el.setText(`上次同步 ${time} · ${failed} 个任务失败`);
+    } else {
+      el.setText(`上次同步 ${time} · ${report.tasks.filter((task) => task.ok).length} 个任务成功`);
+    }
+  }
+
+  private onStatusBarClick(event: MouseEvent) {
+    if (!this.isSyncBusy()) {
+      this.showLastReport();
+      return;
+    }
+    const menu = new Menu();
+    menu.addItem((item) =>
+      item
+        .setTitle("取消当前同步")
+        .setIcon("x-circle")
+        .onClick(() => this.cancelSync())
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle("查看上次同步报告")
+        .setIcon("file-text")
+        .onClick(() => this.showLastReport())
+    );
+    menu.showAtMouseEvent(event);
+  }
+
+  showLastReport() {
+    const report = this.runtime.lastReport;
+    if (!report) {
+      new Notice("暂无同步报告。");
+      return;
+    }
+    this.showReportModal(report);
+  }
+
+  isSyncBusy(): boolean {
+    return this.runningJobs.length > 0 || this.jobQueue.length > 0 || this.runHookSignals.size > 0;
+  }
+
+  cancelSync(silent = false) {
+    if (!this.isSyncBusy()) {
+      if (!silent) {
+        new Notice("当前没有进行中的同步。");
+      }
+      return;
+    }
+    const queued = this.jobQueue.splice(0);
+    for (const job of queued) {
+      job.waiters.forEach((resolve) => resolve({ ok: false, reason: "已取消", cancelled: true }));
+    }
+    for (const signal of [...this.runningJobs.map((job) => job.signal), ...this.runHookSignals]) {
+      signal.cancelled = true;
+      signal.onCancel?.();
+    }
+    if (!silent) {
+      new Notice("正在取消同步，将在当前文件处理完后停止。");
+    }
+  }
+
+  async previewAllTasks() {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      new Notice("此插件仅支持桌面端文件系统适配器。");
+      return;
+    }
+
+    const enabledTasks = this.settings.tasks.filter((task) => this.isTaskActive(task));
+    if (enabledTasks.length === 0) {
+      new Notice("没有启用的同步任务。");
+      return;
+    }
+
+    const plans: SyncPlan[] = [];
+    const failures: string[] = [];
+    for (const task of enabledTasks) {
+      const result = await this.planTask(task, vaultBasePath);
+      if (result.ok) {
+        plans.push(result.plan);
+      } else {
+        failures.push(`${task.name || task.id}: ${result.reason}`);
+      }
+    }
+    this.showPlanModal(plans, failures, () => this.syncAllTasks());
+  }
+
+  async previewSingleTask(task: SyncTask) {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      new Notice("此插件仅支持桌面端文件系统适配器。");
+      return;
+    }
+    if (!this.appliesToThisDevice(task)) {
+      new Notice(`任务「${task.name || task.id}」不适用于本机（${this.getDeviceName()}）。`);
+      return;
+    }
+    const result = await this.planTask(task, vaultBasePath);
+    if (result.ok) {
+      this.showPlanModal([result.plan], [], () => this.syncSingleTask(task));
+    } else {
+      this.showPlanModal([], [`${task.name || task.id}: ${result.reason}`], () => this.syncSingleTask(task));
+    }
+  }
+
+  private async syncTaskWithHooks(
+    task: SyncTask,
+    vaultBasePath: string,
+    options: { onlyPaths?: string[]; signal?: SyncSignal; onProgress?: (progress: SyncProgress) => void }
+  ): Promise<TaskRunResult> {
+    const hooks: HookResult[] = [];
+    const target = this.resolveTargetPath(task);
+    const env: Record<string, string> = {
+      EXTERNAL_SYNC_VAULT: vaultBasePath,
+      EXTERNAL_SYNC_TASK_ID: task.id,
+      EXTERNAL_SYNC_TASK_NAME: task.name || task.id,
+      EXTERNAL_SYNC_SOURCE: this.resolveSourcePath(task) ?? "",
+      EXTERNAL_SYNC_TARGET: target ? path.join(vaultBasePath, target) : ""
+    };
+    const preSyncHook = task.preSyncHook;
+    if (preSyncHook?.command.trim()) {
+      const hook = await this.runHook(preSyncHook, "pre-task", vaultBasePath, env, options.signal);
+      hooks.push(hook);
+      if (hook.cancelled) {
+        return { ok: false, reason: "已取消", cancelled: true, hooks };
+      }
+      if (!hook.ok && preSyncHook.abortOnFailure) {
+        return { ok: false, reason: `同步前钩子失败（${hook.reason}），已中止`, hooks };
+      }
+    }
+    const result = options.signal?.cancelled
+      ? { ok: false as const, reason: "已取消", cancelled: true }
+      : await this.syncTaskInternal(task, vaultBasePath, options);
+    const postSyncHook = task.postSyncHook;
+    if (postSyncHook?.command.trim() && !(!result.ok && result.cancelled)) {
+      hooks.push(
+        await this.runHook(
+          postSyncHook,
+          "post-task",
+          vaultBasePath,
+          {
+            ...env,
+            EXTERNAL_SYNC_STATUS: result.ok ? "ok" : "failed",
+            EXTERNAL_SYNC_CHANGED_FILES: result.ok ? result.copied.join("\n") : "",
+            EXTERNAL_SYNC_DELETED_FILES: result.ok ? result.deleted.join("\n") : ""
+          },
+          options.signal
+        )
+      );
+    }
+    return { ...result, hooks };
+  }
+
+  private async syncTaskInternal(
+    task: SyncTask,
+    vaultBasePath: string,
+    options: { onlyPaths?: string[]; signal?: SyncSignal; onProgress?: (progress: SyncProgress) => void } = {}
+  ): Promise<TaskRunResult> {
+    if (task.command) {
+      return this.syncCommandTask(task, task.command, vaultBasePath, options);
+    }
+    if (task.syncMode === "bidirectional") {
+      return this.syncBidirectionalTask(task, vaultBasePath, options);
+    }
+    const planned = await this.planTask(task, vaultBasePath, options);
+    if (!planned.ok) {
+      return planned;
+    }
+
+    const plan = planned.plan;
+    const nextState: TaskState = { files: {}, excluded: {} };
+    const excludedState = nextState.excluded ?? {};
+    if (plan.partialPaths) {
+      const partialPaths = plan.partialPaths;
+      const outside = (relPath: string) =>
+        !partialPaths.some((prefix) => relPath === prefix || relPath.startsWith(`${prefix}/`));
+      for (const [relPath, fileState] of Object.entries(plan.state.files)) {
+        if (outside(relPath)) {
+          nextState.files[relPath] = fileState;
+        }
+      }
+      for (const [relPath, excluded] of Object.entries(plan.state.excluded ?? {})) {
+        if (outside(relPath)) {
+          excludedState[relPath] = excluded;
+        }
+      }
+    }
+    for (const entry of plan.entries) {
+      if (entry.action === "excluded" && entry.skipReason) {
+        excludedState[entry.relPath] = { reason: entry.skipReason, isDirectory: entry.isDirectory };
+      }
+    }
+    try {
+      if (plan.snapshot) {
+        await this.removePartialSnapshots(path.dirname(plan.snapshot.dir));
+        await fsExtra.ensureDir(plan.snapshot.partialDir);
+      } else {
+        await fsExtra.ensureDir(plan.sourceIsDirectory ? plan.target : path.dirname(plan.target));
+      }
+      const copied: string[] = [];
+      const deleted: string[] = [];
+      const localEdits: LocalEdit[] = [];
+      const errors: FileError[] = [];
+      const warnings: SyncWarning[] = [];
+      const stats = emptyStats();
+      const secrets: SecretFinding[] = [];
+      const secretAction = plan.rules.secretAction;
+      const detectors = secretAction === "off" ? [] : this.getSecretDetectors();
+      const encryption = plan.rules.encrypt ? await this.getEncryptionKey() : null;
+      if (plan.rules.encrypt && !encryption) {
+        return { ok: false, reason: "未设置加密口令" };
+      }
+      const keepVersions = Boolean(task.versions?.enabled);
+      let archived = 0;
+      for (const entry of plan.entries) {
+        if (entry.action === "failed" && entry.error) {
+          errors.push(entry.error);
+        }
+      }
+      const work = plan.entries.filter((entry) => entry.action !== "excluded" && entry.action !== "failed");
+      stats.excluded = plan.entries.filter((entry) => entry.action === "excluded").length;
+      const progress: SyncProgress = { processed: 0, total: work.length, bytes: 0 };
+      options.onProgress?.({ ...progress });
+      for (const entry of work) {
+        if (options.signal?.cancelled) {
+          for (const [relPath, fileState] of Object.entries(plan.state.files)) {
+            if (!(relPath in nextState.files) && !deleted.includes(relPath)) {
+              nextState.files[relPath] = fileState;
+            }
+          }
+          await this.saveTaskState(vaultBasePath, task.id, nextState);
+          if (plan.snapshot) {
+            await fsExtra.remove(plan.snapshot.partialDir);
+          }
+          return { ok: false, reason: "已取消", cancelled: true };
+        }
+        try {
+          const localEdit = entry.localEdit ? task.onLocalEdit ?? "overwrite" : null;
+          const missingNote =
+            entry.action === "unchanged" &&
+            entry.notePath !== undefined &&
+            entry.notePath !== entry.target &&
+            !fs.existsSync(entry.notePath);
+          const scanned =
+            secretAction !== "off" &&
+            localEdit !== "skip" &&
+            (entry.action === "create" || entry.action === "overwrite" || missingNote)
+              ? await this.scanFileForSecrets(entry.source, detectors)
+              : null;
+          const scan = scanned?.ok ? scanned : null;
+          if (scan && secretAction !== "off") {
+            secrets.push(...scan.findings.map((finding) => ({ path: entry.relPath, ...finding, action: secretAction })));
+          }
+          const blockUnscanned = Boolean(
+            scanned && !scanned.ok && secretAction === "block" && plan.rules.blockUnscannedFiles
+          );
+          if (scanned && !scanned.ok) {
+            warnings.push(unscannedWarning(entry.relPath, scanned.reason, blockUnscanned));
+          }
+          const hasSecrets = Boolean(scan && scan.findings.length > 0) || blockUnscanned;
+          if (localEdit === "skip") {
+            const known = plan.state.files[entry.relPath];
+            if (known) {
+              nextState.files[entry.relPath] = known;
+            }
+            localEdits.push({ path: entry.relPath, action: localEdit });
+            stats.skipped++;
+          } else if (hasSecrets && secretAction === "block") {
+            delete nextState.files[entry.relPath];
+          } else if (entry.action === "create" || entry.action === "overwrite") {
+            delete nextState.files[entry.relPath];
+            if (localEdit) {
+              localEdits.push({ path: entry.relPath, action: localEdit });
+            }
+            const label = localEdit === "backup" ? LOCAL_EDIT_VERSION_LABEL : "";
+            if (
+              (keepVersions || label) &&
+              entry.action === "overwrite" &&
+              (await this.archiveVersion(plan.target, entry.target, label))
+            ) {
+              archived++;
+            }
+            await fsExtra.ensureDir(path.dirname(entry.target));
+            const redact = Boolean(scan && hasSecrets && secretAction === "redact");
+            const content =
+              redact || encryption || entry.notePath
+                ? scan && redact
+                  ? Buffer.from(scan.redacted)
+                  : await fs.promises.readFile(entry.source)
+                : null;
+            if (entry.notePath !== entry.target) {
+              if (content && (redact || encryption)) {
+                const srcStat = await fs.promises.stat(entry.source);
+                await fsExtra.outputFile(
+                  entry.target,
+                  encryption ? encryptBuffer(content, encryption.key, encryption.salt) : content
+                );
+                await fs.promises.utimes(entry.target, srcStat.atime, srcStat.mtime);
+              } else {
+                await fsExtra.copy(entry.source, entry.target, { overwrite: true, preserveTimestamps: true });
+              }
+            }
+            if (content && entry.notePath) {
+              await this.writeFileNote(entry, content);
+            }
+            entry.redacted = redact || undefined;
+            if (!entry.hash && plan.rules.compareMode === "hash") {
+              const transformed = entry.redacted || encryption || entry.notePath === entry.target;
+              entry.hash = await this.hashFile(transformed ? entry.source : entry.target);
+            }
+            nextState.files[entry.relPath] = await this.captureFileState(entry);
+            stats.copied++;
+            copied.push(entry.relPath);
+            stats.bytes += entry.size;
+            progress.bytes += entry.size;
+          } else if (entry.action === "unchanged") {
+            if (entry.linkFrom) {
+              await this.linkOrCopy(entry.linkFrom, entry.target);
+            }
+            if (missingNote) {
+              const redact = Boolean(scan && hasSecrets && secretAction === "redact");
+              await this.writeFileNote(
+                entry,
+                scan && redact ? Buffer.from(scan.redacted) : await fs.promises.readFile(entry.source)
+              );
+            }
+            nextState.files[entry.relPath] = await this.captureFileState(entry);
+            stats.skipped++;
+          } else if (entry.action === "delete") {
+            if (keepVersions && (await this.archiveVersion(plan.target, entry.target))) {
+              archived++;
+            } else {
+              await this.removeTargetFile(vaultBasePath, entry.target);
+            }
+            await this.pruneEmptyDirs(path.dirname(entry.target), plan.source, plan.target);
+            deleted.push(entry.relPath);
+            stats.deleted++;
+          }
+          if (entry.plainCopy && localEdit !== "skip") {
+            await this.removeTargetFile(vaultBasePath, entry.plainCopy);
+            deleted.push(`${entry.relPath}（未加密的旧副本）`);
+            stats.deleted++;
+          }
+        } catch (error) {
+          console.warn(`[External Sync Bridge] 文件处理失败: ${entry.relPath}`, error);
+          errors.push(toFileError(entry.relPath, entry.action === "delete" ? "delete" : "copy", error));
+        }
+        progress.processed++;
+        options.onProgress?.({ ...progress });
+      }
+      try {
+        await this.writeIndexNote(plan, vaultBasePath, nextState, errors, secrets);
+      } catch (error) {
+        console.warn(`[External Sync Bridge] 索引笔记写入失败: ${task.name}`, error);
+        errors.push(toFileError(INDEX_NOTE_NAME, "copy", error));
+      }
+      if (plan.snapshot) {
+        const unchangedSnapshot =
+          plan.snapshot.previous !== null &&
+          copied.length === 0 &&
+          errors.length === 0 &&
+          Object.keys(plan.state.files).every((relPath) => relPath in nextState.files);
+        if (unchangedSnapshot) {
+          await fsExtra.remove(plan.snapshot.partialDir);
+        } else {
+          await fs.promises.rename(plan.snapshot.partialDir, plan.snapshot.dir);
+          await this.pruneSnapshots(
+            path.dirname(plan.snapshot.dir),
+            task.snapshotRetention ?? DEFAULT_SNAPSHOT_RETENTION
+          );
+        }
+      }
+      if (archived > 0 && task.versions) {
+        await this.pruneVersions(
+          plan.sourceIsDirectory ? path.join(plan.target, VERSIONS_DIR) : this.getVersionDir(plan.target, plan.target),
+          task.versions
+        );
+      }
+      await this.saveTaskState(vaultBasePath, task.id, nextState);
+      if (!plan.partialPaths) {
+        this.runtime.lastSuccessAt[task.id] = Date.now();
+        await this.saveRuntimeState();
+      }
+      stats.failed = errors.length;
+      return {
+        ok: true,
+        copied: copied.slice(0, MAX_REPORTED_FILES),
+        deleted,
+        conflicts: [],
+        localEdits,
+        errors,
+        warnings,
+        secrets,
+        stats
+      };
+    } catch (error) {
+      console.error(`[External Sync Bridge] 同步失败: ${task.name}`, error);
+      if (plan.snapshot) {
+        await fsExtra.remove(plan.snapshot.partialDir).catch(() => undefined);
+      }
+      const { code, message } = toFileError("", "copy", error);
+      return { ok: false, reason: `同步失败（${code}: ${message}）` };
+    }
+  }
+
+  private async syncCommandTask(
+    task: SyncTask,
+    command: CommandSource,
+    vaultBasePath: string,
+    options: { signal?: SyncSignal; onProgress?: (progress: SyncProgress) => void }
+  ): Promise<TaskRunResult> {
+    const validation = this.validateTask(task, vaultBasePath);
+    if (!validation.ok) {
+      return validation;
+    }
+    options.onProgress?.({ processed: 0, total: 1, bytes: 0 });
+    const output = await this.runSourceCommand(command, validation.source, options.signal);
+    if (options.signal?.cancelled) {
+      return { ok: false, reason: "已取消", cancelled: true };
+    }
+    if (!output.ok) {
+      return output;
+    }
+
+    const rules = this.getEffectiveRules(task);
+    const name = path.basename(validation.target);
+    const stats = emptyStats();
+    const errors: FileError[] = [];
+    const warnings: SyncWarning[] = output.stderr
+      ? [{ path: name, message: `命令输出了错误信息：${output.stderr}`, code: "STDERR" }]
+      : [];
+    const copied: string[] = [];
+    const secrets: SecretFinding[] = [];
+    try {
+      let content = output.stdout;
+      let redacted = false;
+      const secretAction = rules.secretAction;
+      const binary = content.subarray(0, 8000).includes(0);
+      if (secretAction !== "off" && binary) {
+        const blocked = secretAction === "block" && rules.blockUnscannedFiles;
+        warnings.push(unscannedWarning(name, "二进制输出", blocked));
+        if (blocked) {
+          options.onProgress?.({ processed: 1, total: 1, bytes: 0 });
+          return { ok: true, copied, deleted: [], conflicts: [], localEdits: [], errors, warnings, secrets, stats };
+        }
+      } else if (secretAction !== "off") {
+        const scan = scanSecrets(content.toString("utf8"), this.getSecretDetectors());
+        secrets.push(...scan.findings.map((finding) => ({ path: name, ...finding, action: secretAction })));
+        if (scan.findings.length > 0 && secretAction === "block") {
+          options.onProgress?.({ processed: 1, total: 1, bytes: 0 });
+          return { ok: true, copied, deleted: [], conflicts: [], localEdits: [], errors, warnings, secrets, stats };
+        }
+        if (scan.findings.length > 0 && secretAction === "redact") {
+          content = Buffer.from(scan.redacted);
+          redacted = true;
+        }
+      }
+
+      const hash = createHash("sha256").update(output.stdout).digest("hex");
+      const target = `${validation.target}${rules.encrypt ? ENCRYPTED_SUFFIX : ""}`;
+      const state = await this.loadTaskState(vaultBasePath, task.id);
+      const known = state.files[name];
+      const targetStat = await fs.promises.stat(target).catch(() => null);
+      const unchanged =
+        known?.hash === hash &&
+        targetStat !== null &&
+        targetStat.size === known.targetSize &&
+        Math.floor(targetStat.mtimeMs) === Math.floor(known.targetMtimeMs);
+      if (unchanged) {
+        stats.skipped = 1;
+      } else {
+        const encryption = rules.encrypt ? await this.getEncryptionKey() : null;
+        if (rules.encrypt && !encryption) {
+          return { ok: false, reason: "未设置加密口令" };
+        }
+        const archived = Boolean(targetStat && task.versions?.enabled && (await this.archiveVersion(target, target)));
+        await fsExtra.outputFile(target, encryption ? encryptBuffer(content, encryption.key, encryption.salt) : content);
+        if (archived && task.versions) {
+          await this.pruneVersions(this.getVersionDir(target, target), task.versions);
+        }
+        const written = await fs.promises.stat(target);
+        const now = Date.now();
+        await this.saveTaskState(vaultBasePath, task.id, {
+          files: {
+            [name]: {
+              size: output.stdout.length,
+              mtimeMs: now,
+              ino: 0,
+              hash,
+              targetSize: written.size,
+              targetMtimeMs: written.mtimeMs,
+              redacted: redacted || undefined
+            }
+          }
+        });
+        stats.copied = 1;
+        stats.bytes = output.stdout.length;
+        copied.push(name);
+      }
+      options.onProgress?.({ processed: 1, total: 1, bytes: stats.bytes });
+      this.runtime.lastSuccessAt[task.id] = Date.now();
+      await this.saveRuntimeState();
+      return { ok: true, copied, deleted: [], conflicts: [], localEdits: [], errors, warnings, secrets, stats };
+    } catch (error) {
+      console.error(`[External Sync Bridge] 同步失败: ${task.name}`, error);
+      const { code, message } = toFileError(name, "copy", error);
+      return { ok: false, reason: `同步失败（${code}: ${message}）` };
+    }
+  }
+
+  private async syncBidirectionalTask(
+    task: SyncTask,
+    vaultBasePath: string,
+    options: { signal?: SyncSignal; onProgress?: (progress: SyncProgress) => void }
+  ): Promise<TaskRunResult> {
+    const validation = this.validateTask(task, vaultBasePath);
+    if (!validation.ok) {
+      return validation;
+    }
+    const { source, target } = validation;
+    const rules = this.getEffectiveRules(task);
+    const sourceIsDirectory = fs.statSync(source).isDirectory();
+    const loaded = await this.loadTaskState(vaultBasePath, task.id);
+    const sameRoots = loaded.roots?.source === source && loaded.roots?.target === target;
+    const state: TaskState = sameRoots ? loaded : { files: {} };
+    if (Object.keys(state.files).length > 0) {
+      try {
+        await fs.promises.readdir(sourceIsDirectory ? target : path.dirname(target));
+      } catch (error) {
+        return {
+          ok: false,
+          reason: `Vault 中的目标目录不可用（${toFileError("", "read", error).code}），为避免误删外部文件已中止同步`
+        };
+      }
+    }
+    const nextState: TaskState = { files: { ...state.files }, excluded: {}, roots: { source, target } };
+    const excludedState = nextState.excluded ?? {};
+    const errors: FileError[] = [];
+    const unreadable: string[] = [];
+    const pairs = new Map<string, { source: string; target: string }>();
+    const addPair = (relPath: string) => {
+      const native = relPath.split("/").join(path.sep);
+      pairs.set(relPath, { source: path.join(source, native), target: path.join(target, native) });
+    };
+
+    const walk = async (root: string, dir: string, isTarget: boolean, parentIgnoreRules: IgnoreRule[]) => {
+      const relDir = path.relative(root, dir).split(path.sep).join("/");
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        if (isTarget && (error as NodeJS.ErrnoException).code === "ENOENT") {
+          return;
+        }
+        unreadable.push(relDir);
+        errors.push(toFileError(relDir || ".", "read", error));
+        return;
+      }
+      const ignoreRules = rules.respectIgnoreFiles
+        ? parentIgnoreRules.concat(await this.loadIgnoreRules(root, dir))
+        : parentIgnoreRules;
+      for (const entry of entries) {
+        const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+        const reserved = !relDir && (entry.name === VERSIONS_DIR || (rules.indexNote && entry.name === INDEX_NOTE_NAME));
+        if (isTarget && (reserved || isConflictCopy(entry.name))) {
+          continue;
+        }
+        const skipReason = this.matchRules(relPath, entry.isDirectory(), rules, ignoreRules);
+        if (skipReason) {
+          if (!isTarget) {
+            excludedState[relPath] = { reason: skipReason, isDirectory: entry.isDirectory() };
+          }
+        } else if (entry.isDirectory()) {
+          await walk(root, path.join(dir, entry.name), isTarget, ignoreRules);
+        } else if (entry.isFile()) {
+          addPair(relPath);
+        }
+      }
+    };
+
+    try {
+      if (sourceIsDirectory) {
+        await walk(source, source, false, []);
+        await walk(target, target, true, []);
+        Object.keys(state.files)
+          .filter((relPath) => !(relPath in excludedState))
+          .forEach(addPair);
+      } else {
+        pairs.set(path.basename(source), { source, target });
+      }
+
+      const copied: string[] = [];
+      const deleted: string[] = [];
+      const conflicts: string[] = [];
+      const warnings: SyncWarning[] = [];
+      const secrets: SecretFinding[] = [];
+      const stats = emptyStats();
+      stats.excluded = Object.keys(excludedState).length;
+      const secretAction = rules.secretAction;
+      const detectors = secretAction === "off" ? [] : this.getSecretDetectors();
+      const keepVersions = Boolean(task.versions?.enabled);
+      const backupDir = this.getExternalBackupDir(vaultBasePath, task.id);
+      let archived = 0;
+      const statFile = async (file: string) => {
+        const stat = await fs.promises.stat(file).catch((error: NodeJS.ErrnoException) => {
+          if (error.code === "ENOENT") {
+            return null;
+          }
+          throw error;
+        });
+        if (stat && !stat.isFile()) {
+          throw Object.assign(new Error("两侧同一路径的类型不一致"), { code: "ETYPE" });
+        }
+        return stat;
+      };
+      const sideChanged = async (file: string, stat: fs.Stats | null, size: number, mtimeMs: number, hash?: string) => {
+        if (!stat) {
+          return true;
+        }
+        if (stat.size === size && Math.floor(stat.mtimeMs) === Math.floor(mtimeMs)) {
+          return false;
+        }
+        return !hash || stat.size !== size || (await this.hashFile(file)) !== hash;
+      };
+
+      const work = [...pairs.entries()].sort(([a], [b]) => a.localeCompare(b));
+      const progress: SyncProgress = { processed: 0, total: work.length, bytes: 0 };
+      options.onProgress?.({ ...progress });
+      for (const [relPath, pair] of work) {
+        if (options.signal?.cancelled) {
+          await this.saveTaskState(vaultBasePath, task.id, nextState);
+          return { ok: false, reason: "已取消", cancelled: true };
+        }
+        if (unreadable.some((prefix) => !prefix || relPath === prefix || relPath.startsWith(`${prefix}/`))) {
+          continue;
+        }
+        const blockedBySecrets = async () => {
+          const scan = secretAction === "off" ? null : await this.scanFileForSecrets(pair.source, detectors);
+          if (!scan || secretAction === "off") {
+            return false;
+          }
+          if (!scan.ok) {
+            const blocked = secretAction === "block" && rules.blockUnscannedFiles;
+            warnings.push(unscannedWarning(relPath, scan.reason, blocked));
+            return blocked;
+          }
+          secrets.push(...scan.findings.map((finding) => ({ path: relPath, ...finding, action: secretAction })));
+          return scan.findings.length > 0 && secretAction === "block";
+        };
+        const record = async (hash?: string) => {
+          nextState.files[relPath] = await this.captureBidirectionalState(pair.source, pair.target, hash);
+        };
+        const toVault = async (overwrite: boolean) => {
+          if (await blockedBySecrets()) {
+            return;
+          }
+          if (overwrite && keepVersions && (await this.archiveVersion(target, pair.target))) {
+            archived++;
+          }
+          await fsExtra.copy(pair.source, pair.target, { overwrite: true, preserveTimestamps: true });
+          await record();
+          copied.push(relPath);
+          stats.copied++;
+          stats.bytes += nextState.files[relPath].size;
+        };
+        const toExternal = async (overwrite: boolean) => {
+          if (overwrite) {
+            await fsExtra.copy(pair.source, path.join(backupDir, relPath.split("/").join(path.sep)), {
+              preserveTimestamps: true
+            });
+          }
+          await fsExtra.copy(pair.target, pair.source, { overwrite: true, preserveTimestamps: true });
+          await record();
+          copied.push(relPath);
+          stats.copied++;
+          stats.bytes += nextState.files[relPath].size;
+        };
+        const conflict = async () => {
+          const existing = this.runtime.conflicts.find((item) => item.taskId === task.id && item.relPath === relPath);
+          if (!(await blockedBySecrets())) {
+            const copyPath =
+              existing?.copyPath ??
+              path.join(path.dirname(pair.target), formatConflictName(path.basename(pair.target), Date.now()));
+            await fsExtra.copy(pair.source, copyPath, { overwrite: true, preserveTimestamps: true });
+            if (!existing) {
+              this.runtime.conflicts.push({ taskId: task.id, relPath, copyPath, detectedAt: Date.now() });
+            }
+          }
+          conflicts.push(relPath);
+        };
+
+        const removeFromVault = async () => {
+          if (keepVersions && (await this.archiveVersion(target, pair.target))) {
+            archived++;
+          } else {
+            await this.removeTargetFile(vaultBasePath, pair.target);
+          }
+          if (sourceIsDirectory) {
+            await this.pruneEmptyDirs(path.dirname(pair.target), source, target);
+          }
+          delete nextState.files[relPath];
+          deleted.push(relPath);
+          stats.deleted++;
+        };
+        const removeFromExternal = async () => {
+          await fsExtra.move(pair.source, path.join(backupDir, relPath.split("/").join(path.sep)), { overwrite: true });
+          delete nextState.files[relPath];
+          deleted.push(`${relPath}（外部）`);
+          stats.deleted++;
+        };
+        const settle = async () => {
+          const hash = await this.hashFile(pair.source);
+          if (hash === (await this.hashFile(pair.target))) {
+            await record(hash);
+            stats.skipped++;
+          } else {
+            await conflict();
+          }
+        };
+
+        try {
+          const known = state.files[relPath];
+          const [sourceStat, targetStat] = await Promise.all([statFile(pair.source), statFile(pair.target)]);
+          if (!sourceStat && !targetStat) {
+            delete nextState.files[relPath];
+          } else if (!known) {
+            await (sourceStat && targetStat ? settle() : sourceStat ? toVault(false) : toExternal(false));
+          } else {
+            const sourceChanged = await sideChanged(pair.source, sourceStat, known.size, known.mtimeMs, known.hash);
+            const targetChanged = await sideChanged(
+              pair.target,
+              targetStat,
+              known.targetSize,
+              known.targetMtimeMs,
+              known.hash
+            );
+            if (!sourceChanged && !targetChanged) {
+              await record(known.hash);
+              stats.skipped++;
+            } else if (!targetChanged) {
+              await (sourceStat ? toVault(true) : removeFromVault());
+            } else if (!sourceChanged) {
+              await (targetStat ? toExternal(true) : removeFromExternal());
+            } else if (!sourceStat || !targetStat) {
+              await (sourceStat ? toVault(false) : toExternal(false));
+            } else {
+              await settle();
+            }
+          }
+        } catch (error) {
+          console.warn(`[External Sync Bridge] 双向同步失败: ${relPath}`, error);
+          errors.push(toFileError(relPath, "copy", error));
+        }
+        progress.processed++;
+        progress.bytes = stats.bytes;
+        options.onProgress?.({ ...progress });
+      }
+
+      if (archived > 0 && task.versions) {
+        await this.pruneVersions(
+          sourceIsDirectory ? path.join(target, VERSIONS_DIR) : this.getVersionDir(target, target),
+          task.versions
+        );
+      }
+      await this.saveTaskState(vaultBasePath, task.id, nextState);
+      this.runtime.conflicts = this.runtime.conflicts.filter(
+        (item) => item.taskId !== task.id || conflicts.includes(item.relPath)
+      );
+      this.runtime.lastSuccessAt[task.id] = Date.now();
+      await this.saveRuntimeState();
+      stats.failed = errors.length;
+      return {
+        ok: true,
+        copied: copied.slice(0, MAX_REPORTED_FILES),
+        deleted,
+        conflicts,
+        localEdits: [],
+        errors,
+        warnings,
+        secrets,
+        stats
+      };
+    } catch (error) {
+      console.error(`[External Sync Bridge] 同步失败: ${task.name}`, error);
+      const { code, message } = toFileError("", "copy", error);
+      return { ok: false, reason: `同步失败（${code}: ${message}）` };
+    }
+  }
+
+  private async captureBidirectionalState(sourceFile: string, targetFile: string, hash?: string): Promise<FileState> {
+    const [sourceStat, targetStat] = await Promise.all([fs.promises.stat(sourceFile), fs.promises.stat(targetFile)]);
+    return {
+      size: sourceStat.size,
+      mtimeMs: sourceStat.mtimeMs,
+      ino: sourceStat.ino,
+      hash: hash ?? (await this.hashFile(sourceFile)),
+      targetSize: targetStat.size,
+      targetMtimeMs: targetStat.mtimeMs
+    };
+  }
+
+  private getExternalBackupDir(vaultBasePath: string, taskId: string): string {
+    return path.join(this.getPluginDir(vaultBasePath), "external-backups", taskId, formatVersionStamp(Date.now()));
+  }
+
+  async resolveConflict(
+    conflict: SyncConflict,
+    choice: ConflictChoice
+  ): Promise<{ ok: true } | { ok: false; reason: string }> {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      return { ok: false, reason: "此插件仅支持桌面端文件系统适配器" };
+    }
+    if (this.isSyncBusy()) {
+      return { ok: false, reason: "同步进行中，请稍后再处理冲突" };
+    }
+    const task = this.settings.tasks.find((item) => item.id === conflict.taskId);
+    if (!task) {
+      return { ok: false, reason: "任务不存在" };
+    }
+    const validation = this.validateTask(task, vaultBasePath);
+    if (!validation.ok) {
+      return validation;
+    }
+    const native = conflict.relPath.split("/").join(path.sep);
+    const sourceIsDirectory = fs.statSync(validation.source).isDirectory();
+    const sourceFile = sourceIsDirectory ? path.join(validation.source, native) : validation.source;
+    const targetFile = sourceIsDirectory ? path.join(validation.target, native) : validation.target;
+    try {
+      if (choice === "external") {
+        if (task.versions?.enabled && (await this.archiveVersion(validation.target, targetFile))) {
+          await this.pruneVersions(
+            sourceIsDirectory ? path.join(validation.target, VERSIONS_DIR) : this.getVersionDir(targetFile, targetFile),
+            task.versions
+          );
+        }
+        await fsExtra.copy(sourceFile, targetFile, { overwrite: true, preserveTimestamps: true });
+        await fsExtra.remove(conflict.copyPath);
+      } else {
+        if (fs.existsSync(sourceFile)) {
+          await fsExtra.copy(sourceFile, path.join(this.getExternalBackupDir(vaultBasePath, task.id), native), {
+            preserveTimestamps: true
+          });
+        }
+        await fsExtra.copy(targetFile, sourceFile, { overwrite: true, preserveTimestamps: true });
+        if (choice === "vault") {
+          await fsExtra.remove(conflict.copyPath);
+        } else if (fs.existsSync(conflict.copyPath)) {
+          const keptPath = path.join(
+            path.dirname(targetFile),
+            formatConflictName(path.basename(targetFile), conflict.detectedAt, "external")
+          );
+          await fsExtra.move(conflict.copyPath, keptPath, { overwrite: true });
+        }
+      }
+      const state = await this.loadTaskState(vaultBasePath, task.id);
+      state.files[conflict.relPath] = await this.captureBidirectionalState(sourceFile, targetFile);
+      await this.saveTaskState(vaultBasePath, task.id, state);
+    } catch (error) {
+      console.error(`[External Sync Bridge] 处理冲突失败: ${conflict.relPath}`, error);
+      const { code, message } = toFileError(conflict.relPath, "copy", error);
+      return { ok: false, reason: `处理冲突失败（${code}: ${message}）` };
+    }
+    this.runtime.conflicts = this.runtime.conflicts.filter((item) => item !== conflict);
+    await this.saveRuntimeState();
+    return { ok: true };
+  }
+
+  private async runSourceCommand(
+    command: CommandSource,
+    cwd: string,
+    signal?: SyncSignal
+  ): Promise<{ ok: true; stdout: Buffer; stderr: string } | { ok: false; reason: string }> {
+    if (!this.getApprovedCommands().has(hashCommand(command.command))) {
+      return { ok: false, reason: UNAPPROVED_COMMAND_REASON };
+    }
+    const timeoutSeconds = Math.max(1, Number(command.timeoutSeconds) || DEFAULT_COMMAND_TIMEOUT_SECONDS);
+    const result = await runShellCommand(command.command, { cwd, timeoutSeconds, signal });
+    const stderr = result.stderr.slice(0, 2000);
+    if (result.failure) {
+      console.warn(`[External Sync Bridge] 命令执行失败: ${command.command}（${result.failure}）`);
+      return { ok: false, reason: stderr ? `命令${result.failure}：${stderr}` : `命令${result.failure}` };
+    }
+    return { ok: true, stdout: result.stdout, stderr };
+  }
+
+  private async runHook(
+    hook: SyncHook,
+    stage: HookStage,
+    cwd: string,
+    env: Record<string, string>,
+    signal?: SyncSignal
+  ): Promise<HookResult> {
+    const timeoutSeconds = Math.max(1, Number(hook.timeoutSeconds) || DEFAULT_COMMAND_TIMEOUT_SECONDS);
+    const startedAt = Date.now();
+    const result: ShellResult = this.getApprovedCommands().has(hashCommand(hook.command))
+      ? await runShellCommand(hook.command, {
+          cwd,
+          env: { ...process.env, ...env, EXTERNAL_SYNC_STAGE: stage },
+          timeoutSeconds,
+          signal
+        })
+      : { stdout: Buffer.alloc(0), stderr: "", failure: UNAPPROVED_COMMAND_REASON, cancelled: false };
+    const output = [result.stdout.toString("utf8").trim(), result.stderr]
+      .filter((text) => text.length > 0)
+      .join("\n");
+    if (result.failure && !result.cancelled) {
+      console.warn(`[External Sync Bridge] 钩子执行失败: ${hook.command}（${result.failure}）`);
+    }
+    return {
+      stage,
+      command: hook.command,
+      ok: !result.failure,
+      cancelled: result.cancelled || undefined,
+      reason: result.failure ?? undefined,
+      output: output.length > MAX_HOOK_OUTPUT_CHARS ? `…${output.slice(-MAX_HOOK_OUTPUT_CHARS)}` : output,
+      durationMs: Date.now() - startedAt
+    };
+  }
+
+  private toVaultPaths(task: SyncTask, relPaths: string[], vaultBasePath: string): string[] {
+    const validation = this.validateTask(task, vaultBasePath);
+    if (!validation.ok) {
+      return [];
+    }
+    const sourceIsFile = Boolean(task.command) || (!task.sources && fs.statSync(validation.source).isFile());
+    return relPaths.map((relPath) =>
+      path
+        .relative(vaultBasePath, sourceIsFile ? validation.target : path.join(validation.target, relPath))
+        .split(path.sep)
+        .join("/")
+    );
+  }
+
+  private async planTask(
+    task: SyncTask,
+    vaultBasePath: string,
+    options: { ignoreState?: boolean; onlyPaths?: string[]; signal?: SyncSignal } = {}
+  ): Promise<{ ok: true; plan: SyncPlan } | { ok: false; reason: string; cancelled?: boolean }> {
+    const validation = this.validateTask(task, vaultBasePath);
+    if (!validation.ok) {
+      return { ok: false, reason: validation.reason };
+    }
+
+    if (task.command) {
+      return { ok: false, reason: "命令源需要执行命令才能比较，不支持预览" };
+    }
+    if (task.syncMode === "bidirectional") {
+      return { ok: false, reason: "双向同步需要比较两侧变更，不支持预览" };
+    }
+
+    const source = validation.source;
+    const snapshot = task.syncMode === "snapshot" ? await this.nextSnapshot(validation.target) : undefined;
+    const target = snapshot ? snapshot.partialDir : validation.target;
+    const rules = this.getEffectiveRules(task);
+    const state: TaskState = options.ignoreState ? { files: {} } : await this.loadTaskState(vaultBasePath, task.id);
+    const entries: SyncPlanEntry[] = [];
+
+    const pushFailure = (src: string, relPath: string, isDirectory: boolean, error: FileError) => {
+      console.warn(`[External Sync Bridge] 读取失败: ${src}`, error);
+      entries.push({
+        relPath,
+        source: src,
+        target: path.join(target, relPath.split("/").join(path.sep)),
+        action: "failed",
+        size: 0,
+        isDirectory,
+        error
+      });
+    };
+
+    const planFile = async (src: string, plainDest: string, relPath: string, srcStat: fs.Stats) => {
+      const renderNote = this.shouldRenderNote(relPath, rules);
+      const suffix = rules.encrypt ? ENCRYPTED_SUFFIX : renderNote && rules.noteMode === "replace" ? NOTE_SUFFIX : "";
+      const dest = `${plainDest}${suffix}`;
+      const known = state.files[relPath];
+      let action: SyncPlanAction = "create";
+      let hash = known?.hash && this.matchesSourceState(known, srcStat) ? known.hash : undefined;
+      const previous = snapshot?.previous
+        ? `${path.join(snapshot.previous, relPath.split("/").join(path.sep))}${suffix}`
+        : null;
+      const compareTarget = snapshot ? previous : dest;
+      let linkFrom: string | undefined;
+      let redacted: boolean | undefined;
+      let localEdit: boolean | undefined;
+      if (compareTarget && fs.existsSync(compareTarget)) {
+        try {
+          const comparison =
+            suffix || known?.redacted
+              ? await this.compareTransformedFile(src, srcStat, compareTarget, rules.compareMode, known)
+              : await this.compareFile(src, compareTarget, rules.compareMode, known);
+          redacted = (comparison.unchanged && known?.redacted) || undefined;
+          action = comparison.unchanged ? "unchanged" : snapshot ? "create" : "overwrite";
+          hash = comparison.hash ?? hash;
+          linkFrom = snapshot && comparison.unchanged ? compareTarget : undefined;
+          localEdit =
+            (action === "overwrite" && known && (await this.isLocallyEdited(known, dest, !suffix && !known.redacted))) ||
+            undefined;
+        } catch (error) {
+          pushFailure(src, relPath, false, toFileError(relPath, "compare", error));
+          return;
+        }
+      }
+      entries.push({
+        relPath,
+        source: src,
+        target: dest,
+        action,
+        size: srcStat.size,
+        isDirectory: false,
+        hash,
+        linkFrom,
+        redacted,
+        notePath: renderNote ? `${plainDest}${NOTE_SUFFIX}` : undefined,
+        localEdit,
+        plainCopy: rules.encrypt && !snapshot && fs.existsSync(plainDest) ? plainDest : undefined
+      });
+    };
+
+    const planEntry = async (src: string, relPath: string, ignoreRules: IgnoreRule[]) => {
+      if (options.signal?.cancelled) {
+        throw new SyncCancelledError();
+      }
+      if (rules.indexNote && relPath === INDEX_NOTE_NAME) {
+        return;
+      }
+      const dest = path.join(target, relPath.split("/").join(path.sep));
+      let srcStat: fs.Stats;
+      try {
+        srcStat = await fs.promises.lstat(src);
+      } catch (error) {
+        pushFailure(src, relPath, false, toFileError(relPath, "read", error));
+        return;
+      }
+      const skipReason = this.matchRules(relPath, srcStat.isDirectory(), rules, ignoreRules);
+      if (skipReason) {
+        entries.push({
+          relPath,
+          source: src,
+          target: dest,
+          action: "excluded",
+          size: srcStat.isDirectory() ? 0 : srcStat.size,
+          isDirectory: srcStat.isDirectory(),
+          skipReason
+        });
+      } else if (srcStat.isDirectory()) {
+        await walk(src, ignoreRules);
+      } else {
+        await planFile(src, dest, relPath, srcStat);
+      }
+    };
+
+    const walk = async (dir: string, parentIgnoreRules: IgnoreRule[]) => {
+      let names: string[];
+      try {
+        names = await fs.promises.readdir(dir);
+      } catch (error) {
+        const relDir = path.relative(source, dir).split(path.sep).join("/");
+        pushFailure(dir, relDir, true, toFileError(relDir || ".", "read", error));
+        return;
+      }
+      const ignoreRules = rules.respectIgnoreFiles
+        ? parentIgnoreRules.concat(await this.loadIgnoreRules(source, dir))
+        : parentIgnoreRules;
+      for (const name of names) {
+        const src = path.join(dir, name);
+        await planEntry(src, path.relative(source, src).split(path.sep).join("/"), ignoreRules);
+      }
+    };
+
+    const planStale = async (startRel: string) => {
+      const planned = new Set(
+        entries
+          .filter((entry) => entry.action === "create" || entry.action === "overwrite" || entry.action === "unchanged")
+          .flatMap((entry) => [entry.target, entry.notePath, entry.plainCopy])
+          .filter((file): file is string => file !== undefined)
+          .map(foldPathCase)
+      );
+      const staleFiles = await this.collectStaleFiles(target, planned, rules, startRel);
+      const unreadable = entries.filter((entry) => entry.action === "failed").map((entry) => entry.relPath);
+      for (const rel of staleFiles) {
+        const sourceRel = rules.encrypt && rel.endsWith(ENCRYPTED_SUFFIX) ? rel.slice(0, -ENCRYPTED_SUFFIX.length) : rel;
+        const relPosix = sourceRel.split(path.sep).join("/");
+        if (unreadable.some((failed) => !failed || relPosix === failed || relPosix.startsWith(`${failed}/`))) {
+          continue;
+        }
+        const dest = path.join(target, rel);
+        const destStat = await fs.promises.lstat(dest);
+        entries.push({
+          relPath: relPosix,
+          source: path.join(source, sourceRel),
+          target: dest,
+          action: "delete",
+          size: destStat.size,
+          isDirectory: false
+        });
+      }
+    };
+
+    const planPath = async (relPath: string, withStale = task.syncMode === "mirror") => {
+      const ignoreRules = rules.respectIgnoreFiles ? await this.loadIgnoreRulesForPath(source, relPath) : [];
+      const segments = relPath.split("/");
+      for (let i = 1; i < segments.length; i++) {
+        if (this.matchRules(segments.slice(0, i).join("/"), true, rules, ignoreRules)) {
+          return;
+        }
+      }
+      const src = path.join(source, relPath.split("/").join(path.sep));
+      if (fs.existsSync(src)) {
+        await planEntry(src, relPath, ignoreRules);
+      }
+      if (withStale) {
+        await planStale(relPath);
+      }
+    };
+
+    const planMatches = async () => {
+      const matched = await this.matchSourcePatterns(task);
+      if (!matched.ok) {
+        throw Object.assign(new Error(matched.reason), { code: "EINVAL" });
+      }
+      const relPaths: string[] = [];
+      for (const match of matched.matches) {
+        const relPath = path.relative(source, match).split(path.sep).join("/");
+        if (relPath.startsWith("..") || path.isAbsolute(relPath)) {
+          pushFailure(match, match, false, {
+            path: match,
+            operation: "read",
+            code: "EOUTSIDE",
+            message: "不在源基准目录内"
+          });
+        } else {
+          relPaths.push(relPath);
+        }
+      }
+      if (relPaths.includes("")) {
+        await walk(source, []);
+      } else {
+        for (const relPath of this.collapsePaths(relPaths)) {
+          await planPath(relPath, false);
+        }
+      }
+      if (task.syncMode === "mirror") {
+        await planStale("");
+      }
+    };
+
+    const onlyPaths =
+      options.onlyPaths && !options.onlyPaths.includes("") && !snapshot
+        ? this.collapsePaths(options.onlyPaths)
+        : undefined;
+    let sourceIsDirectory = false;
+    try {
+      const sourceStat = await fs.promises.stat(source);
+      sourceIsDirectory = sourceStat.isDirectory();
+      if (!sourceIsDirectory) {
+        await planFile(
+          source,
+          snapshot ? path.join(target, path.basename(source)) : target,
+          path.basename(source),
+          sourceStat
+        );
+      } else if (task.sources) {
+        await planMatches();
+      } else if (onlyPaths) {
+        for (const relPath of onlyPaths) {
+          await planPath(relPath);
+        }
+      } else {
+        await walk(source, []);
+        if (task.syncMode === "mirror") {
+          await planStale("");
+        }
+      }
+    } catch (error) {
+      if (error instanceof SyncCancelledError) {
+        return { ok: false, reason: "已取消", cancelled: true };
+      }
+      console.error(`[External Sync Bridge] 生成同步计划失败: ${task.name}`, error);
+      const { code } = toFileError("", "read", error);
+      return { ok: false, reason: `读取源文件失败（${code}）` };
+    }
+
+    return {
+      ok: true,
+      plan: {
+        task,
+        source,
+        target,
+        sourceIsDirectory,
+        rules,
+        state,
+        partialPaths: sourceIsDirectory && !task.sources ? onlyPaths : undefined,
+        snapshot,
+        entries
+      }
+    };
+  }
+
+  private collapsePaths(relPaths: string[]): string[] {
+    const sorted = Array.from(new Set(relPaths)).sort();
+    const result: string[] = [];
+    for (const relPath of sorted) {
+      if (!result.some((prefix) => relPath.startsWith(`${prefix}/`))) {
+        result.push(relPath);
+      }
+    }
+    return result;
+  }
+
+  private async compareFile(
+    src: string,
+    dest: string,
+    compareMode: "mtime" | "hash",
+    known?: FileState
+  ): Promise<{ unchanged: boolean; hash?: string }> {
+    const [srcStat, destStat] = await Promise.all([fs.promises.stat(src), fs.promises.stat(dest)]);
+    if (!destStat.isFile()) {
+      return { unchanged: false };
+    }
+    if (compareMode === "hash") {
+      const srcHash = known?.hash && this.matchesSourceState(known, srcStat) ? known.hash : await this.hashFile(src);
+      const destHash =
+        known?.hash && this.matchesTargetState(known, destStat) ? known.hash : await this.hashFile(dest);
+      return { unchanged: srcHash === destHash, hash: srcHash };
+    }
+    if (known && this.matchesSourceState(known, srcStat) && this.matchesTargetState(known, destStat)) {
+      return { unchanged: true };
+    }
+    const sameSize = destStat.size === srcStat.size;
+    const sameMtime = Math.floor(destStat.mtimeMs) === Math.floor(srcStat.mtimeMs);
+    return { unchanged: sameSize && sameMtime };
+  }
+
+  private async compareTransformedFile(
+    src: string,
+    srcStat: fs.Stats,
+    dest: string,
+    compareMode: "mtime" | "hash",
+    known: FileState | undefined
+  ): Promise<{ unchanged: boolean; hash?: string }> {
+    const destStat = await fs.promises.stat(dest);
+    if (!known || !this.matchesTargetState(known, destStat)) {
+      return { unchanged: false };
+    }
+    if (this.matchesSourceState(known, srcStat)) {
+      return { unchanged: true, hash: known.hash };
+    }
+    if (compareMode === "hash" && known.hash) {
+      const hash = await this.hashFile(src);
+      return { unchanged: hash === known.hash, hash };
+    }
+    return { unchanged: false };
+  }
+
+  private async isExistingTransformedCopy(entry: SyncPlanEntry, rules: SyncRules): Promise<boolean> {
+    if (entry.action !== "overwrite" || entry.linkFrom) {
+      return false;
+    }
+    const [srcStat, destStat] = await Promise.all([fs.promises.stat(entry.source), fs.promises.stat(entry.target)]);
+    if (entry.notePath === entry.target) {
+      const note = await fs.promises.readFile(entry.target, "utf8");
+      entry.hash = entry.hash ?? (await this.hashFile(entry.source));
+      return new RegExp(`^hash: ${entry.hash}$`, "m").test(note);
+    }
+    if (Math.abs(srcStat.mtimeMs - destStat.mtimeMs) >= 1) {
+      return false;
+    }
+    if (entry.target.endsWith(ENCRYPTED_SUFFIX)) {
+      return true;
+    }
+    entry.hash = entry.hash ?? (await this.hashFile(entry.source));
+    if ((await this.hashFile(entry.target)) === entry.hash) {
+      return true;
+    }
+    if (rules.secretAction !== "redact") {
+      return false;
+    }
+    const scan = await this.scanFileForSecrets(entry.source, this.getSecretDetectors());
+    if (!scan.ok || scan.findings.length === 0) {
+      return false;
+    }
+    const target = await fs.promises.readFile(entry.target);
+    if (!target.equals(Buffer.from(scan.redacted))) {
+      return false;
+    }
+    entry.redacted = true;
+    return true;
+  }
+
+  private async isLocallyEdited(known: FileState, dest: string, comparableHash: boolean): Promise<boolean> {
+    const destStat = await fs.promises.stat(dest);
+    if (this.matchesTargetState(known, destStat)) {
+      return false;
+    }
+    return !(comparableHash && known.hash && known.targetSize === destStat.size && (await this.hashFile(dest)) === known.hash);
+  }
+
+  private matchesSourceState(known: FileState, stat: fs.Stats): boolean {
+    return known.size === stat.size && known.mtimeMs === stat.mtimeMs && known.ino === stat.ino;
+  }
+
+  private matchesTargetState(known: FileState, stat: fs.Stats): boolean {
+    return known.targetSize === stat.size && known.targetMtimeMs === stat.mtimeMs;
+  }
+
+  private async captureFileState(entry: SyncPlanEntry): Promise<FileState> {
+    const [srcStat, destStat] = await Promise.all([fs.promises.stat(entry.source), fs.promises.stat(entry.target)]);
+    return {
+      size: srcStat.size,
+      mtimeMs: srcStat.mtimeMs,
+      ino: srcStat.ino,
+      hash: entry.hash,
+      targetSize: destStat.size,
+      targetMtimeMs: destStat.mtimeMs,
+      redacted: entry.redacted
+    };
+  }
+
+  private getPluginDir(vaultBasePath: string): string {
+    return path.join(vaultBasePath, this.app.vault.configDir, "plugins", this.manifest.id);
+  }
+
+  private getTaskStatePath(vaultBasePath: string, taskId: string): string {
+    return path.join(this.getPluginDir(vaultBasePath), "state", `${taskId}.json`);
+  }
+
+  private async loadTaskState(vaultBasePath: string, taskId: string): Promise<TaskState> {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(this.getTaskStatePath(vaultBasePath, taskId), "utf8"));
+      if (parsed && typeof parsed.files === "object") {
+        return parsed as TaskState;
+      }
+    } catch {
+      // 缺失或损坏的状态文件按空状态处理
+    }
+    return { files: {} };
+  }
+
+  private async saveTaskState(vaultBasePath: string, taskId: string, state: TaskState) {
+    this.taskStateCache.delete(taskId);
+    await fsExtra.outputFile(this.getTaskStatePath(vaultBasePath, taskId), JSON.stringify(state));
+  }
+
+  async removeTaskState(taskId: string) {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      return;
+    }
+    this.taskStateCache.delete(taskId);
+    await fsExtra.remove(this.getTaskStatePath(vaultBasePath, taskId));
+    if (taskId in this.runtime.lastSuccessAt || taskId in this.runtime.lastScheduledAt) {
+      delete this.runtime.lastSuccessAt[taskId];
+      delete this.runtime.lastScheduledAt[taskId];
+      await this.saveRuntimeState();
+    }
+  }
+
+  async rebuildAllTaskStates() {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      new Notice("此插件仅支持桌面端文件系统适配器。");
+      return;
+    }
+    if (this.isSyncBusy()) {
+      new Notice("同步进行中，请稍后再重建缓存。");
+      return;
+    }
+
+    new Notice("正在重建同步状态缓存...");
+    let rebuilt = 0;
+    const failures: TaskFailure[] = [];
+    const tasks = this.settings.tasks.filter(
+      (item) => this.isTaskActive(item) && !item.command && item.syncMode !== "bidirectional"
+    );
+    for (const task of tasks) {
+      const planned = await this.planTask(task, vaultBasePath, { ignoreState: true });
+      if (!planned.ok) {
+        failures.push({ taskName: task.name || task.id, reason: `${planned.reason}（已保留原有缓存）`, errors: [] });
+        continue;
+      }
+      const state: TaskState = { files: {}, excluded: {} };
+      for (const entry of planned.plan.entries) {
+        if (entry.action === "unchanged" || (await this.isExistingTransformedCopy(entry, planned.plan.rules))) {
+          state.files[entry.relPath] = await this.captureFileState(entry);
+        } else if (entry.action === "excluded" && entry.skipReason && state.excluded) {
+          state.excluded[entry.relPath] = { reason: entry.skipReason, isDirectory: entry.isDirectory };
+        }
+      }
+      await this.saveTaskState(vaultBasePath, task.id, state);
+      rebuilt++;
+    }
+    new Notice(`同步状态缓存已重建：${rebuilt} 个任务。`);
+    if (failures.length > 0) {
+      this.showFailureModal(failures);
+    }
+  }
+
+  getEffectiveRules(task?: SyncTask): SyncRules {
+    const merge = (base: string[], own: string[] | undefined, mode: "append" | "replace" | undefined) =>
+      mode === "replace" ? own ?? [] : [...base, ...(own ?? [])];
+    return {
+      excludePatterns: merge(this.settings.excludePatterns, task?.excludePatterns, task?.excludeMode),
+      includePatterns: merge(this.settings.includePatterns, task?.includePatterns, task?.includeMode),
+      respectIgnoreFiles: task?.respectIgnoreFiles ?? this.settings.respectIgnoreFiles,
+      compareMode: task?.compareMode ?? this.settings.compareMode,
+      secretAction: task?.secretAction ?? this.settings.secretAction,
+      blockUnscannedFiles: this.settings.blockUnscannedFiles,
+      encrypt: Boolean(task?.encrypt),
+      noteMode: task?.encrypt ? "off" : task?.noteMode ?? "off",
+      notePatterns: task?.notePatterns ?? [],
+      indexNote: Boolean(task?.indexNote)
+    };
+  }
+
+  private async writeIndexNote(
+    plan: SyncPlan,
+    vaultBasePath: string,
+    state: TaskState,
+    errors: FileError[],
+    secrets: SecretFinding[]
+  ) {
+    if (!plan.rules.indexNote || !plan.sourceIsDirectory) {
+      return;
+    }
+    const linkRoot = plan.snapshot ? plan.snapshot.dir : plan.target;
+    const toLink = (relPath: string) => {
+      const suffix = plan.rules.encrypt
+        ? ENCRYPTED_SUFFIX
+        : this.shouldRenderNote(relPath, plan.rules)
+          ? NOTE_SUFFIX
+          : "";
+      const file = `${path.join(linkRoot, relPath.split("/").join(path.sep))}${suffix}`;
+      return path.relative(vaultBasePath, file).split(path.sep).join("/");
+    };
+    const files = new Map<string, IndexNoteFile>();
+    for (const [relPath, fileState] of Object.entries(state.files)) {
+      files.set(relPath, {
+        relPath,
+        link: toLink(relPath),
+        size: fileState.size,
+        mtimeMs: fileState.mtimeMs,
+        status: plan.rules.encrypt ? "已加密" : fileState.redacted ? "已脱敏" : "已同步"
+      });
+    }
+    const problems = [
+      ...secrets
+        .filter((finding) => finding.action === "block")
+        .map((finding) => ({ relPath: finding.path, status: "已阻止（敏感信息）" })),
+      ...errors
+        .filter((error) => error.path && error.path !== "." && error.path !== INDEX_NOTE_NAME)
+        .map((error) => ({ relPath: error.path, status: `${FILE_OPERATION_LABELS[error.operation]}失败（${error.code}）` }))
+    ];
+    for (const problem of problems) {
+      const existing = files.get(problem.relPath);
+      const srcStat = existing ? null : await fs.promises.stat(path.join(plan.source, problem.relPath)).catch(() => null);
+      files.set(problem.relPath, {
+        relPath: problem.relPath,
+        link: existing?.link ?? null,
+        size: existing?.size ?? srcStat?.size ?? 0,
+        mtimeMs: existing?.mtimeMs ?? srcStat?.mtimeMs ?? 0,
+        status: problem.status
+      });
+    }
+    const excluded = Object.entries(state.excluded ?? {}).map(([relPath, item]) => ({
+      relPath: item.isDirectory ? `${relPath}/` : relPath,
+      reason: SKIP_REASON_LABELS[item.reason]
+    }));
+    const taskName = plan.task.name || plan.task.id;
+    const fileSet = createHash("sha256")
+      .update(
+        [
+          taskName,
+          plan.source,
+          ...[...files.values()].map((file) => `${file.relPath}\t${file.link ?? ""}\t${file.status}`).sort(),
+          ...excluded.map((item) => `${item.relPath}\t${item.reason}`).sort()
+        ].join("\n")
+      )
+      .digest("hex");
+    const indexPath = path.join(plan.target, INDEX_NOTE_NAME);
+    const existing = await fs.promises.readFile(indexPath, "utf8").catch(() => null);
+    if (existing !== null && /^fileset: (\w+)$/m.exec(existing)?.[1] === fileSet) {
+      return;
+    }
+    await fsExtra.outputFile(
+      indexPath,
+      renderIndexNote({ taskName, source: plan.source, fileSet, updatedAt: Date.now() }, [...files.values()], excluded)
+    );
+  }
+
+  private async writeFileNote(entry: SyncPlanEntry, content: Buffer) {
+    if (!entry.notePath) {
+      return;
+    }
+    if (content.subarray(0, 8000).includes(0)) {
+      throw Object.assign(new Error("不是文本文件，未生成笔记"), { code: "EBINARY" });
+    }
+    const srcStat = await fs.promises.stat(entry.source);
+    entry.hash = entry.hash ?? (await this.hashFile(entry.source));
+    const note = renderFileNote(content.toString("utf8"), getNoteLanguage(entry.source) ?? "", {
+      source: entry.source,
+      size: srcStat.size,
+      mtimeMs: srcStat.mtimeMs,
+      hash: entry.hash,
+      syncedAt: Date.now()
+    });
+    await fsExtra.outputFile(entry.notePath, note);
+  }
+
+  private shouldRenderNote(relPath: string, rules: SyncRules): boolean {
+    if (rules.noteMode === "off" || relPath.toLowerCase().endsWith(NOTE_SUFFIX)) {
+      return false;
+    }
+    if (rules.notePatterns.length > 0) {
+      return micromatch.isMatch(relPath, rules.notePatterns, { dot: true });
+    }
+    return getNoteLanguage(relPath) !== null;
+  }
+
+  private getSecretDetectors(): SecretDetector[] {
+    const custom: SecretDetector[] = [];
+    for (const pattern of this.settings.secretPatterns) {
+      try {
+        custom.push({ name: `自定义：${pattern}`, regex: new RegExp(pattern, "g") });
+      } catch (error) {
+        console.warn(`[External Sync Bridge] 无效的敏感信息规则: ${pattern}`, error);
+      }
+    }
+    return [...SECRET_DETECTORS, ...custom];
+  }
+
+  private async scanFileForSecrets(
+    filePath: string,
+    detectors: SecretDetector[]
+  ): Promise<({ ok: true } & ReturnType<typeof scanSecrets>) | { ok: false; reason: string }> {
+    const stat = await fs.promises.stat(filePath);
+    if (stat.size > MAX_SECRET_SCAN_BYTES) {
+      return { ok: false, reason: `文件超过 ${formatBytes(MAX_SECRET_SCAN_BYTES)}` };
+    }
+    const buffer = await fs.promises.readFile(filePath);
+    if (buffer.subarray(0, 8000).includes(0)) {
+      return { ok: false, reason: "二进制文件" };
+    }
+    return { ok: true, ...scanSecrets(buffer.toString("utf8"), detectors) };
+  }
+
+  async loadIgnoreRules(sourceRoot: string, dir: string): Promise<IgnoreRule[]> {
+    const base = path.relative(sourceRoot, dir).split(path.sep).join("/");
+    const rules: IgnoreRule[] = [];
+    for (const fileName of IGNORE_FILE_NAMES) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(path.join(dir, fileName), "utf8");
+      } catch {
+        continue;
+      }
+      for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.replace(/(?<!\\)\s+$/, "");
+        if (!line || line.startsWith("#")) {
+          continue;
+        }
+        const negate = line.startsWith("!");
+        if (negate) {
+          line = line.slice(1);
+        }
+        line = line.replace(/^\\([#!])/, "$1");
+        const dirOnly = line.endsWith("/");
+        if (dirOnly) {
+          line = line.slice(0, -1);
+        }
+        const anchored = line.includes("/");
+        line = line.replace(/^\//, "");
+        if (!line) {
+          continue;
+        }
+        rules.push({ base, pattern: anchored ? line : `**/${line}`, negate, dirOnly });
+      }
+    }
+    return rules;
+  }
+
+  async loadIgnoreRulesForPath(sourceRoot: string, relPath: string): Promise<IgnoreRule[]> {
+    const segments = relPath.split("/").slice(0, -1);
+    const rules = await this.loadIgnoreRules(sourceRoot, sourceRoot);
+    let dir = sourceRoot;
+    for (const segment of segments) {
+      dir = path.join(dir, segment);
+      rules.push(...(await this.loadIgnoreRules(sourceRoot, dir)));
+    }
+    return rules;
+  }
+
+  matchRules(relPath: string, isDirectory: boolean, rules: SyncRules, ignoreRules: IgnoreRule[] = []): SkipReason | null {
+    if (rules.excludePatterns.length > 0 && micromatch.isMatch(relPath, rules.excludePatterns, { dot: true })) {
+      return "excluded";
+    }
+    let ignored = false;
+    for (const rule of ignoreRules) {
+      if (rule.dirOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.base && !relPath.startsWith(`${rule.base}/`)) {
+        continue;
+      }
+      const relToBase = rule.base ? relPath.slice(rule.base.length + 1) : relPath;
+      if (micromatch.isMatch(relToBase, rule.pattern, { dot: true })) {
+        ignored = !rule.negate;
+      }
+    }
+    if (ignored) {
+      return "ignored";
+    }
+    if (!isDirectory && rules.includePatterns.length > 0 && !micromatch.isMatch(relPath, rules.includePatterns, { dot: true })) {
+      return "not-included";
+    }
+    return null;
+  }
+
+  private async collectStaleFiles(
+    targetRoot: string,
+    planned: Set<string>,
+    rules: SyncRules,
+    startRel = ""
+  ): Promise<string[]> {
+    const stale: string[] = [];
+    const isStale = (file: string) => !planned.has(foldPathCase(file));
+    const walk = async (dir: string) => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        if (dir === targetRoot && (entry.name === VERSIONS_DIR || (rules.indexNote && entry.name === INDEX_NOTE_NAME))) {
+          continue;
+        }
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (isStale(entryPath)) {
+          stale.push(path.relative(targetRoot, entryPath));
+        }
+      }
+    };
+
+    if (!startRel) {
+      await walk(targetRoot);
+      return stale;
+    }
+
+    const start = path.join(targetRoot, startRel.split("/").join(path.sep));
+    const startStat = await fs.promises.lstat(start).catch(() => null);
+    if (startStat?.isDirectory()) {
+      await walk(start);
+      return stale;
+    }
+    const suffixes = rules.encrypt ? [ENCRYPTED_SUFFIX] : rules.noteMode !== "off" ? ["", NOTE_SUFFIX] : [""];
+    for (const suffix of suffixes) {
+      const file = `${start}${suffix}`;
+      if (fs.existsSync(file) && isStale(file)) {
+        stale.push(path.relative(targetRoot, file));
+      }
+    }
+    return stale;
+  }
+
+  async listSnapshots(baseDir: string): Promise<Snapshot[]> {
+    const names = await fs.promises.readdir(baseDir).catch(() => [] as string[]);
+    const snapshots: Snapshot[] = [];
+    for (const name of names) {
+      const createdAt = parseSnapshotName(name);
+      if (createdAt !== null) {
+        snapshots.push({ name, path: path.join(baseDir, name), createdAt });
+      }
+    }
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt || b.name.localeCompare(a.name, undefined, { numeric: true }));
+  }
+
+  private async nextSnapshot(baseDir: string): Promise<{ dir: string; partialDir: string; previous: string | null }> {
+    const snapshots = await this.listSnapshots(baseDir);
+    const baseName = formatSnapshotName(Date.now());
+    let name = baseName;
+    for (let suffix = 2; snapshots.some((snapshot) => snapshot.name === name); suffix++) {
+      name = `${baseName}-${suffix}`;
+    }
+    const dir = path.join(baseDir, name);
+    return { dir, partialDir: `${dir}.partial`, previous: snapshots[0]?.path ?? null };
+  }
+
+  private async removePartialSnapshots(baseDir: string) {
+    const names = await fs.promises.readdir(baseDir).catch(() => [] as string[]);
+    for (const name of names) {
+      if (name.endsWith(".partial") && parseSnapshotName(name.slice(0, -".partial".length)) !== null) {
+        await fsExtra.remove(path.join(baseDir, name));
+      }
+    }
+  }
+
+  private async linkOrCopy(existing: string, target: string) {
+    await fsExtra.ensureDir(path.dirname(target));
+    try {
+      await fs.promises.link(existing, target);
+    } catch (error) {
+      console.warn(`[External Sync Bridge] 硬链接失败，改为复制: ${target}`, error);
+      await fsExtra.copy(existing, target, { overwrite: true, preserveTimestamps: true });
+    }
+  }
+
+  private async pruneSnapshots(baseDir: string, retention: SnapshotRetention): Promise<number> {
+    if (retention.daily <= 0 && retention.weekly <= 0 && retention.monthly <= 0) {
+      return 0;
+    }
+    const snapshots = await this.listSnapshots(baseDir);
+    const keep = new Set(snapshots.slice(0, 1).map((snapshot) => snapshot.path));
+    const keepPerPeriod = (count: number, periodOf: (date: Date) => string) => {
+      const periods = new Set<string>();
+      for (const snapshot of snapshots) {
+        const period = periodOf(new Date(snapshot.createdAt));
+        if (periods.has(period)) {
+          continue;
+        }
+        if (periods.size >= count) {
+          break;
+        }
+        periods.add(period);
+        keep.add(snapshot.path);
+      }
+    };
+    keepPerPeriod(retention.daily, (date) => date.toDateString());
+    keepPerPeriod(retention.weekly, (date) =>
+      new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7)).toDateString()
+    );
+    keepPerPeriod(retention.monthly, (date) => `${date.getFullYear()}-${date.getMonth()}`);
+    const expired = snapshots.filter((snapshot) => !keep.has(snapshot.path));
+    for (const snapshot of expired) {
+      await fsExtra.remove(snapshot.path);
+    }
+    return expired.length;
+  }
+
+  async pruneAllSnapshots() {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      new Notice("此插件仅支持桌面端文件系统适配器。");
+      return;
+    }
+    if (this.isSyncBusy()) {
+      new Notice("同步进行中，请稍后再清理快照。");
+      return;
+    }
+    const tasks = this.settings.tasks.filter(
+      (task) => task.syncMode === "snapshot" && this.appliesToThisDevice(task) && this.resolveTargetPath(task)
+    );
+    if (tasks.length === 0) {
+      new Notice("没有快照模式的同步任务。");
+      return;
+    }
+    let removed = 0;
+    for (const task of tasks) {
+      const baseDir = path.join(vaultBasePath, this.resolveTargetPath(task) ?? "");
+      try {
+        removed += await this.pruneSnapshots(baseDir, task.snapshotRetention ?? DEFAULT_SNAPSHOT_RETENTION);
+      } catch (error) {
+        console.error(`[External Sync Bridge] 清理快照失败: ${task.name}`, error);
+        new Notice(`清理快照失败：${task.name || task.id}`);
+      }
+    }
+    new Notice(`已清理 ${removed} 个过期快照。`);
+  }
+
+  private getVersionDir(targetRoot: string, targetFile: string): string {
+    if (targetFile === targetRoot || !targetFile.startsWith(`${targetRoot}${path.sep}`)) {
+      return path.join(path.dirname(targetRoot), VERSIONS_DIR, path.basename(targetRoot));
+    }
+    return path.join(targetRoot, VERSIONS_DIR, path.relative(targetRoot, targetFile));
+  }
+
+  private async archiveVersion(targetRoot: string, targetFile: string, label = ""): Promise<boolean> {
+    const stat = await fs.promises.lstat(targetFile).catch(() => null);
+    if (!stat || !stat.isFile()) {
+      return false;
+    }
+    const versionPath = path.join(
+      this.getVersionDir(targetRoot, targetFile),
+      `${formatVersionStamp(Date.now())}${label ? `.${label}` : ""}${path.extname(targetFile)}`
+    );
+    await fsExtra.move(targetFile, versionPath, { overwrite: true });
+    return true;
+  }
+
+  private async collectVersions(versionsRoot: string): Promise<Map<string, FileVersion[]>> {
+    const groups = new Map<string, FileVersion[]>();
+    const walk = async (dir: string) => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+          continue;
+        }
+        const createdAt = parseVersionStamp(entry.name);
+        if (createdAt === null) {
+          continue;
+        }
+        const stat = await fs.promises.stat(entryPath);
+        const relPath = path.relative(versionsRoot, dir).split(path.sep).join("/");
+        const versions = groups.get(relPath) ?? [];
+        versions.push({ path: entryPath, createdAt, size: stat.size });
+        groups.set(relPath, versions);
+      }
+    };
+    await walk(versionsRoot);
+    for (const versions of groups.values()) {
+      versions.sort((a, b) => b.createdAt - a.createdAt);
+    }
+    return groups;
+  }
+
+  private async pruneVersions(versionsRoot: string, policy: VersionPolicy) {
+    const groups = await this.collectVersions(versionsRoot);
+    const minCreatedAt = policy.maxAgeDays > 0 ? Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+    const expired: FileVersion[] = [];
+    const kept: FileVersion[] = [];
+    for (const versions of groups.values()) {
+      versions.forEach((version, index) => {
+        const overCount = policy.maxCount > 0 && index >= policy.maxCount;
+        (overCount || version.createdAt < minCreatedAt ? expired : kept).push(version);
+      });
+    }
+    if (policy.maxSizeMB > 0) {
+      const maxBytes = policy.maxSizeMB * 1024 * 1024;
+      let total = kept.reduce((sum, version) => sum + version.size, 0);
+      kept.sort((a, b) => a.createdAt - b.createdAt);
+      while (total > maxBytes && kept.length > 0) {
+        const version = kept.shift() as FileVersion;
+        total -= version.size;
+        expired.push(version);
+      }
+    }
+    for (const version of expired) {
+      await fsExtra.remove(version.path);
+      let dir = path.dirname(version.path);
+      while (dir !== versionsRoot && (await fs.promises.readdir(dir).catch(() => [""])).length === 0) {
+        await fs.promises.rmdir(dir);
+        dir = path.dirname(dir);
+      }
+    }
+  }
+
+  private getApprovedCommandsStorageKey(): string {
+    return `external-sync-bridge-approved-commands:${this.getVaultBasePath() ?? ""}`;
+  }
+
+  private getApprovedCommands(): Set<string> {
+    try {
+      const stored: unknown = JSON.parse(window.localStorage.getItem(this.getApprovedCommandsStorageKey()) ?? "[]");
+      return new Set(Array.isArray(stored) ? stored.filter((item): item is string => typeof item === "string") : []);
+    } catch {
+      return new Set();
+    }
+  }
+
+  private getUnapprovedCommands(tasks: SyncTask[], runHooks: boolean): string[] {
+    const approved = this.getApprovedCommands();
+    const hooks = runHooks ? [this.settings.preRunHook, this.settings.postRunHook] : [];
+    const commands = [
+      ...tasks.flatMap((task) => [task.command, task.preSyncHook, task.postSyncHook]),
+      ...hooks
+    ].flatMap((item) => (item ? [item.command] : []));
+    return Array.from(new Set(commands.filter((command) => command.trim() && !approved.has(hashCommand(command)))));
+  }
+
+  private async confirmCommands(tasks: SyncTask[], runHooks = false): Promise<boolean> {
+    const commands = this.getUnapprovedCommands(tasks, runHooks);
+    if (commands.length === 0) {
+      return true;
+    }
+    const confirmed = await new Promise<boolean>((resolve) => {
+      class ConfirmCommandsModal extends Modal {
+        private confirmed = false;
+        onOpen() {
+          const { contentEl } = this;
+          contentEl.empty();
+          contentEl.createEl("h2", { text: "确认在本机运行命令" });
+          contentEl.createEl("p", {
+            text: "以下命令或钩子是新增或修改过的。同步配置可能来自他人共享，请确认命令可信；确认后本机的手动、定时与实时同步都会运行它们，命令再次修改时需要重新确认。"
+          });
+          for (const command of commands) {
+            contentEl.createEl("pre").createEl("code", { text: command });
+          }
+          const actions = contentEl.createEl("div");
+          actions.style.display = "flex";
+          actions.style.gap = "8px";
+          const confirmButton = actions.createEl("button", { text: "允许运行" });
+          confirmButton.addClass("mod-warning");
+          confirmButton.addEventListener("click", () => {
+            this.confirmed = true;
+            this.close();
+          });
+          const cancelButton = actions.createEl("button", { text: "取消" });
+          cancelButton.addEventListener("click", () => this.close());
+        }
+        onClose() {
+          resolve(this.confirmed);
+          this.contentEl.empty();
+        }
+      }
+      new ConfirmCommandsModal(this.app).open();
+    });
+    if (confirmed) {
+      const approved = this.getApprovedCommands();
+      commands.forEach((command) => approved.add(hashCommand(command)));
+      window.localStorage.setItem(this.getApprovedCommandsStorageKey(), JSON.stringify(Array.from(approved)));
+    }
+    return confirmed;
+  }
+
+  private getPassphraseStorageKey(): string {
+    return `external-sync-bridge-passphrase:${this.getVaultBasePath() ?? ""}`;
+  }
+
+  getPassphrase(): string {
+    return window.localStorage.getItem(this.getPassphraseStorageKey()) ?? "";
+  }
+
+  setPassphrase(passphrase: string) {
+    if (passphrase) {
+      window.localStorage.setItem(this.getPassphraseStorageKey(), passphrase);
+    } else {
+      window.localStorage.removeItem(this.getPassphraseStorageKey());
+    }
+    this.encryptionSalt = null;
+    this.encryptionKeys.clear();
+  }
+
+  private async getKeyForSalt(salt: Buffer): Promise<Buffer | null> {
+    const passphrase = this.getPassphrase();
+    if (!passphrase) {
+      return null;
+    }
+    const cacheKey = salt.toString("hex");
+    const cached = this.encryptionKeys.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+    const key = await new Promise<Buffer>((resolve, reject) => {
+      scrypt(passphrase, salt, 32, (error, derived) => (error ? reject(error) : resolve(derived)));
+    });
+    this.encryptionKeys.set(cacheKey, key);
+    return key;
+  }
+
+  private async getEncryptionKey(): Promise<{ key: Buffer; salt: Buffer } | null> {
+    this.encryptionSalt = this.encryptionSalt ?? randomBytes(16);
+    const key = await this.getKeyForSalt(this.encryptionSalt);
+    return key ? { key, salt: this.encryptionSalt } : null;
+  }
+
+  private async collectEncryptedFiles(
+    task: SyncTask,
+    vaultBasePath: string
+  ): Promise<{ file: string; relPath: string }[]> {
+    const targetPath = this.resolveTargetPath(task);
+    if (!targetPath) {
+      return [];
+    }
+    const targetRoot = path.join(vaultBasePath, targetPath);
+    const single = `${targetRoot}${ENCRYPTED_SUFFIX}`;
+    if ((await fs.promises.lstat(single).catch(() => null))?.isFile()) {
+      return [{ file: single, relPath: path.basename(this.resolveSourcePath(task) ?? "") || path.basename(targetRoot) }];
+    }
+    const files: { file: string; relPath: string }[] = [];
+    const walk = async (dir: string) => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (!(dir === targetRoot && entry.name === VERSIONS_DIR)) {
+            await walk(entryPath);
+          }
+        } else if (entry.name.endsWith(ENCRYPTED_SUFFIX)) {
+          files.push({ file: entryPath, relPath: path.relative(targetRoot, entryPath).slice(0, -ENCRYPTED_SUFFIX.length) });
+        }
+      }
+    };
+    await walk(targetRoot);
+    return files;
+  }
+
+  async decryptTask(
+    task: SyncTask,
+    vaultBasePath: string,
+    outputDir: string
+  ): Promise<{ restored: number; backupDir: string | null; failures: FileError[] }> {
+    let restored = 0;
+    const failures: FileError[] = [];
+    const backupDir = path.join(
+      this.getPluginDir(vaultBasePath),
+      "restore-backups",
+      `${task.id}-${formatVersionStamp(Date.now())}`
+    );
+    let backedUp = false;
+    for (const { file, relPath } of await this.collectEncryptedFiles(task, vaultBasePath)) {
+      try {
+        const data = await fs.promises.readFile(file);
+        const salt = readEncryptionSalt(data);
+        const key = salt ? await this.getKeyForSalt(salt) : null;
+        if (!salt || !key) {
+          failures.push({ path: relPath, operation: "read", code: "EFORMAT", message: "不是有效的加密文件" });
+          continue;
+        }
+        let plain: Buffer;
+        try {
+          plain = decryptBuffer(data, key);
+        } catch {
+          failures.push({ path: relPath, operation: "read", code: "EAUTH", message: "口令错误或文件已损坏" });
+          continue;
+        }
+        const output = path.join(outputDir, relPath);
+        if (fs.existsSync(output)) {
+          await fsExtra.copy(output, path.join(backupDir, relPath), { preserveTimestamps: true });
+          backedUp = true;
+        }
+        const stat = await fs.promises.stat(file);
+        await fsExtra.outputFile(output, plain);
+        await fs.promises.utimes(output, stat.atime, stat.mtime);
+        restored++;
+      } catch (error) {
+        console.error(`[External Sync Bridge] 解密失败: ${file}`, error);
+        failures.push(toFileError(relPath, "copy", error));
+      }
+    }
+    return { restored, backupDir: backedUp ? backupDir : null, failures };
+  }
+
+  showDecryptModal(initialTask?: SyncTask) {
+    const basePath = this.getVaultBasePath();
+    if (!basePath) {
+      new Notice("此插件仅支持桌面端文件系统适配器。");
+      return;
+    }
+    const vaultBasePath: string = basePath;
+    if (!this.getPassphrase()) {
+      new Notice("请先在设置中填写加密口令。");
+      return;
+    }
+    const plugin = this;
+    const tasks = this.settings.tasks.filter((task) => task.encrypt);
+    if (tasks.length === 0) {
+      new Notice("没有启用加密存储的同步任务。");
+      return;
+    }
+    const defaultOutput = (task: SyncTask) => {
+      const source = task.command ? "" : this.resolveSourcePath(task) ?? "";
+      return source ? `${source}.decrypted-${formatVersionStamp(Date.now())}` : "";
+    };
+    class DecryptModal extends Modal {
+      private task = initialTask?.encrypt ? initialTask : tasks[0];
+      private outputDir = defaultOutput(this.task);
+      onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "解密还原加密备份" });
+        contentEl
+          .createEl("p", { text: "把目标中的 .enc 文件解密后写入输出目录；输出目录中已有的同名文件会先备份再覆盖。" })
+          .addClass("external-sync-inline-note");
+
+        new Setting(contentEl).setName("任务").addDropdown((dropdown) => {
+          for (const task of tasks) {
+            dropdown.addOption(task.id, task.name || task.id);
+          }
+          dropdown.setValue(this.task.id).onChange((value) => {
+            this.task = tasks.find((task) => task.id === value) ?? tasks[0];
+            this.outputDir = defaultOutput(this.task);
+            this.onOpen();
+          });
+        });
+
+        new Setting(contentEl)
+          .setName("输出目录")
+          .setDesc("默认写入源路径旁新建的文件夹，不会改动源文件")
+          .addText((text) =>
+            text.setValue(this.outputDir).onChange((value) => {
+              this.outputDir = value.trim();
+            })
+          );
+
+        new Setting(contentEl).addButton((button) =>
+          button
+            .setButtonText("解密还原")
+            .setCta()
+            .onClick(async () => {
+              if (!this.outputDir || !path.isAbsolute(this.outputDir)) {
+                new Notice("请填写输出目录的绝对路径。");
+                return;
+              }
+              button.setDisabled(true);
+              const { restored, backupDir, failures } = await plugin.decryptTask(
+                this.task,
+                vaultBasePath,
+                this.outputDir
+              );
+              button.setDisabled(false);
+              const backupNote = backupDir ? `，原文件已备份到 ${backupDir}` : "";
+              new Notice(
+                `已解密还原 ${restored} 个文件${failures.length > 0 ? `，失败 ${failures.length} 个` : ""}${backupNote}。`
+              );
+              if (failures.length > 0) {
+                console.warn("[External Sync Bridge] 解密失败详情", failures);
+                plugin.showFailureModal([{ taskName: this.task.name || this.task.id, errors: failures }]);
+              } else {
+                this.close();
+              }
+            })
+        );
+      }
+      onClose() {
+        this.contentEl.empty();
+      }
+    }
+    new DecryptModal(this.app).open();
+  }
+
+  async collectRestoreItems(
+    task: SyncTask,
+    vaultBasePath: string,
+    snapshotDir?: string
+  ): Promise<
+    { ok: true; items: RestoreItem[]; skipped: { relPath: string; reason: string }[] } | { ok: false; reason: string }
+  > {
+    if (task.command) {
+      return { ok: false, reason: "命令源无法还原" };
+    }
+    const source = this.resolveSourcePath(task);
+    const targetPath = this.resolveTargetPath(task);
+    if (!source || !targetPath) {
+      return { ok: false, reason: "源路径或目标路径无效" };
+    }
+    if (!path.isAbsolute(source)) {
+      return { ok: false, reason: "源路径必须是绝对路径" };
+    }
+    const rules = this.getEffectiveRules(task);
+    const state = await this.loadTaskState(vaultBasePath, task.id);
+    const targetRoot = path.join(vaultBasePath, targetPath);
+    const root = snapshotDir ?? targetRoot;
+    const suffix = rules.encrypt ? ENCRYPTED_SUFFIX : "";
+    const isFile = async (file: string) => Boolean((await fs.promises.lstat(file).catch(() => null))?.isFile());
+    const items: RestoreItem[] = [];
+    const skipped: { relPath: string; reason: string }[] = [];
+
+    const sourceStat = await fs.promises.stat(source).catch(() => null);
+    let singleFile: string | null = null;
+    if (!task.sources && !sourceStat?.isDirectory()) {
+      const nested = path.join(root, path.basename(source));
+      singleFile = (await isFile(`${root}${suffix}`)) ? root : (await isFile(`${nested}${suffix}`)) ? nested : null;
+    }
+    if (singleFile) {
+      const from = `${singleFile}${suffix}`;
+      const versions = snapshotDir ? [] : (await this.collectVersions(this.getVersionDir(singleFile, from))).get("") ?? [];
+      const relPath = path.basename(source);
+      if (state.files[relPath]?.redacted) {
+        skipped.push({ relPath, reason: "已脱敏，无法还原" });
+        return { ok: true, items, skipped };
+      }
+      items.push({ relPath, from, to: source, encrypted: rules.encrypt, exists: fs.existsSync(source), versions });
+      return { ok: true, items, skipped };
+    }
+
+    const versionGroups = snapshotDir
+      ? new Map<string, FileVersion[]>()
+      : await this.collectVersions(path.join(root, VERSIONS_DIR));
+    const walk = async (dir: string) => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (dir === root && (entry.name === VERSIONS_DIR || (rules.indexNote && entry.name === INDEX_NOTE_NAME))) {
+          continue;
+        }
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+          continue;
+        }
+        if (isConflictCopy(entry.name)) {
+          continue;
+        }
+        const targetRel = path.relative(root, entryPath).split(path.sep).join("/");
+        let relPath = targetRel;
+        if (rules.encrypt) {
+          if (!targetRel.endsWith(ENCRYPTED_SUFFIX)) {
+            continue;
+          }
+          relPath = targetRel.slice(0, -ENCRYPTED_SUFFIX.length);
+        } else if (rules.noteMode !== "off" && targetRel.endsWith(NOTE_SUFFIX)) {
+          const plainRel = targetRel.slice(0, -NOTE_SUFFIX.length);
+          if (this.shouldRenderNote(plainRel, rules)) {
+            if (rules.noteMode === "replace") {
+              skipped.push({ relPath: plainRel, reason: "仅保存为笔记，无法还原" });
+            }
+            continue;
+          }
+        }
+        if (state.files[relPath]?.redacted && !snapshotDir) {
+          skipped.push({ relPath, reason: "已脱敏，无法还原" });
+          continue;
+        }
+        const to = path.join(source, relPath.split("/").join(path.sep));
+        items.push({
+          relPath,
+          from: entryPath,
+          to,
+          encrypted: rules.encrypt,
+          exists: fs.existsSync(to),
+          versions: versionGroups.get(targetRel) ?? []
+        });
+      }
+    };
+    await walk(root);
+    items.sort((a, b) => a.relPath.localeCompare(b.relPath));
+    return { ok: true, items, skipped };
+  }
+
+  async restoreTask(
+    task: SyncTask,
+    vaultBasePath: string,
+    selections: { item: RestoreItem; version: FileVersion | null }[]
+  ): Promise<{ restored: number; backupDir: string | null; failures: FileError[] }> {
+    const failures: FileError[] = [];
+    const existing = selections.filter(({ item }) => fs.existsSync(item.to));
+    const backupDir =
+      existing.length > 0
+        ? path.join(this.getPluginDir(vaultBasePath), "restore-backups", `${task.id}-${formatVersionStamp(Date.now())}`)
+        : null;
+    if (backupDir) {
+      for (const { item } of existing) {
+        try {
+          await fsExtra.copy(item.to, path.join(backupDir, item.relPath.split("/").join(path.sep)), {
+            preserveTimestamps: true
+          });
+        } catch (error) {
+          console.error(`[External Sync Bridge] 备份外部文件失败: ${item.to}`, error);
+          failures.push(toFileError(item.relPath, "copy", error));
+        }
+      }
+      if (failures.length > 0) {
+        return { restored: 0, backupDir, failures };
+      }
+    }
+
+    let restored = 0;
+    for (const { item, version } of selections) {
+      const from = version?.path ?? item.from;
+      try {
+        let content: Buffer = await fs.promises.readFile(from);
+        if (item.encrypted) {
+          const salt = readEncryptionSalt(content);
+          const key = salt ? await this.getKeyForSalt(salt) : null;
+          if (!salt || !key) {
+            failures.push({
+              path: item.relPath,
+              operation: "read",
+              code: "EFORMAT",
+              message: "不是有效的加密文件或未设置口令"
+            });
+            continue;
+          }
+          try {
+            content = decryptBuffer(content, key);
+          } catch {
+            failures.push({ path: item.relPath, operation: "read", code: "EAUTH", message: "口令错误或文件已损坏" });
+            continue;
+          }
+        }
+        const stat = await fs.promises.stat(from);
+        await fsExtra.outputFile(item.to, content);
+        await fs.promises.utimes(item.to, stat.atime, stat.mtime);
+        restored++;
+      } catch (error) {
+        console.error(`[External Sync Bridge] 还原失败: ${item.to}`, error);
+        failures.push(toFileError(item.relPath, "copy", error));
+      }
+    }
+    return { restored, backupDir, failures };
+  }
+
+  showConflictsModal() {
+    const plugin = this;
+    class ConflictsModal extends Modal {
+      onOpen() {
+        this.render();
+      }
+      render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "双向同步冲突" });
+        const conflicts = plugin.runtime.conflicts;
+        if (conflicts.length === 0) {
+          contentEl.createEl("p", { text: "没有待处理的冲突。" });
+          return;
+        }
+        contentEl.createEl("p", {
+          text: "以下文件在上次同步后两侧都被修改，外部版本已另存为 Vault 中的冲突副本。保留外部会覆盖 Vault 中的文件；保留 Vault 会覆盖外部文件（原文件先备份到插件目录下的 external-backups）；保留两者会把冲突副本改名保留，并在下次同步时一并同步到外部。",
+          cls: "external-sync-inline-note"
+        });
+        for (const conflict of [...conflicts]) {
+          const task = plugin.settings.tasks.find((item) => item.id === conflict.taskId);
+          const setting = new Setting(contentEl)
+            .setName(conflict.relPath)
+            .setDesc(
+              `${task ? task.name || task.id : "任务已删除"} · ${formatDateTime(conflict.detectedAt)} · 冲突副本：${path.basename(
+                conflict.copyPath
+              )}`
+            );
+          if (!task) {
+            setting.addButton((button) =>
+              button.setButtonText("移除记录").onClick(async () => {
+                plugin.runtime.conflicts = plugin.runtime.conflicts.filter((item) => item !== conflict);
+                await plugin.saveRuntimeState();
+                this.render();
+              })
+            );
+            continue;
+          }
+          setting.addButton((button) =>
+            button.setButtonText("对比").onClick(() => plugin.showDiffModal(task, conflict.relPath))
+          );
+          for (const choice of Object.keys(CONFLICT_CHOICE_LABELS) as ConflictChoice[]) {
+            setting.addButton((button) =>
+              button.setButtonText(CONFLICT_CHOICE_LABELS[choice]).onClick(async () => {
+                button.setDisabled(true);
+                const result = await plugin.resolveConflict(conflict, choice);
+                new Notice(result.ok ? `已处理冲突：${conflict.relPath}` : result.reason);
+                this.render();
+              })
+            );
+          }
+        }
+      }
+      onClose() {
+        this.contentEl.empty();
+      }
+    }
+    new ConflictsModal(this.app).open();
+  }
+
+  showRestoreModal(initialTask?: SyncTask) {
+    const basePath = this.getVaultBasePath();
+    if (!basePath) {
+      new Notice("此插件仅支持桌面端文件系统适配器。");
+      return;
+    }
+    const vaultBasePath: string = basePath;
+    const plugin = this;
+    const tasks = this.settings.tasks.filter((task) => !task.command);
+    if (tasks.length === 0) {
+      new Notice("没有可还原的同步任务。");
+      return;
+    }
+    const maxListed = 500;
+
+    const confirmRestore = (
+      task: SyncTask,
+      selections: { item: RestoreItem; version: FileVersion | null }[],
+      onDone: () => void
+    ) => {
+      class ConfirmRestoreModal extends Modal {
+        onOpen() {
+          const { contentEl } = this;
+          contentEl.empty();
+          contentEl.createEl("h2", { text: "确认还原？" });
+          const overwritten = selections.filter(({ item }) => fs.existsSync(item.to));
+          const created = selections.filter(({ item }) => !fs.existsSync(item.to));
+          contentEl
+            .createEl("p", {
+              text: `将覆盖 ${overwritten.length} 个外部文件，新建 ${created.length} 个；覆盖前会把当前外部文件备份到插件目录下的 restore-backups 文件夹。`
+            })
+            .addClass("external-sync-inline-note");
+          for (const [label, group] of [
+            ["将覆盖", overwritten],
+            ["将新建", created]
+          ] as const) {
+            if (group.length === 0) {
+              continue;
+            }
+            const details = contentEl.createEl("details");
+            details.open = label === "将覆盖";
+            details.createEl("summary", { text: `${label}：${group.length} 个` });
+            const list = details.createEl("ul");
+            for (const { item, version } of group.slice(0, maxListed)) {
+              const versionNote = version ? `（${formatDateTime(version.createdAt)} 的版本）` : "";
+              list.createEl("li", { text: `${item.to}${versionNote}` });
+            }
+            if (group.length > maxListed) {
+              list.createEl("li", { text: `……还有 ${group.length - maxListed} 个` });
+            }
+          }
+          const actions = contentEl.createEl("div");
+          actions.style.display = "flex";
+          actions.style.gap = "8px";
+          const confirmButton = actions.createEl("button", { text: "确认还原" });
+          confirmButton.addClass("mod-warning");
+          confirmButton.addEventListener("click", async () => {
+            if (plugin.isSyncBusy()) {
+              new Notice("同步进行中，请稍后再还原。");
+              return;
+            }
+            confirmButton.disabled = true;
+            const { restored, backupDir, failures } = await plugin.restoreTask(task, vaultBasePath, selections);
+            const backupNote = backupDir ? `，原文件已备份到 ${backupDir}` : "";
+            new Notice(`已还原 ${restored} 个文件${failures.length > 0 ? `，失败 ${failures.length} 个` : ""}${backupNote}。`);
+            if (failures.length > 0) {
+              console.warn("[External Sync Bridge] 还原失败详情", failures);
+              plugin.showFailureModal([{ taskName: task.name || task.id, errors: failures }]);
+            }
+            this.close();
+            onDone();
+          });
+          const cancelButton = actions.createEl("button", { text: "取消" });
+          cancelButton.addEventListener("click", () => this.close());
+        }
+        onClose() {
+          this.contentEl.empty();
+        }
+      }
+      new ConfirmRestoreModal(plugin.app).open();
+    };
+
+    class RestoreModal extends Modal {
+      private task = initialTask && !initialTask.command ? initialTask : tasks[0];
+      private snapshots: Snapshot[] = [];
+      private snapshotPath: string | null = null;
+      private items: RestoreItem[] = [];
+      private skipped: { relPath: string; reason: string }[] = [];
+      private selected = new Set<string>();
+      private versions = new Map<string, FileVersion>();
+      private filter = "";
+      private error: string | null = null;
+
+      onOpen() {
+        this.load();
+      }
+
+      async load() {
+        const targetPath = plugin.resolveTargetPath(this.task);
+        this.snapshots =
+          this.task.syncMode === "snapshot" && targetPath
+            ? await plugin.listSnapshots(path.join(vaultBasePath, targetPath))
+            : [];
+        if (this.snapshots.length > 0 && !this.snapshots.some((snapshot) => snapshot.path === this.snapshotPath)) {
+          this.snapshotPath = this.snapshots[0].path;
+        }
+        const collected = await plugin.collectRestoreItems(this.task, vaultBasePath, this.snapshotPath ?? undefined);
+        this.error = collected.ok ? null : collected.reason;
+        this.items = collected.ok ? collected.items : [];
+        this.skipped = collected.ok ? collected.skipped : [];
+        this.selected = new Set(this.items.map((item) => item.relPath));
+        this.versions.clear();
+        this.render();
+      }
+
+      render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "还原到外部位置" });
+        contentEl
+          .createEl("p", { text: "把 Vault 中的备份写回任务的源路径；可只选部分文件，或为文件挑选历史版本。" })
+          .addClass("external-sync-inline-note");
+
+        new Setting(contentEl).setName("任务").addDropdown((dropdown) => {
+          for (const task of tasks) {
+            dropdown.addOption(task.id, task.name || task.id);
+          }
+          dropdown.setValue(this.task.id).onChange((value) => {
+            this.task = tasks.find((task) => task.id === value) ?? tasks[0];
+            this.snapshotPath = null;
+            this.load();
+          });
+        });
+
+        if (this.snapshots.length > 0) {
+          new Setting(contentEl).setName("快照").addDropdown((dropdown) => {
+            for (const snapshot of this.snapshots) {
+              dropdown.addOption(snapshot.path, snapshot.name);
+            }
+            dropdown.setValue(this.snapshotPath ?? this.snapshots[0].path).onChange((value) => {
+              this.snapshotPath = value;
+              this.load();
+            });
+          });
+        }
+
+        if (this.error) {
+          contentEl.createEl("p", { text: this.error });
+          return;
+        }
+
+        new Setting(contentEl)
+          .setName("筛选")
+          .setDesc(`共 ${this.items.length} 个文件，已选 ${this.selected.size} 个`)
+          .addText((text) =>
+            text
+              .setPlaceholder("按路径筛选")
+              .setValue(this.filter)
+              .onChange((value) => {
+                this.filter = value.trim();
+                this.renderList(listEl);
+              })
+          )
+          .addButton((button) =>
+            button.setButtonText("全选").onClick(() => {
+              this.visibleItems().forEach((item) => this.selected.add(item.relPath));
+              this.render();
+            })
+          )
+          .addButton((button) =>
+            button.setButtonText("全不选").onClick(() => {
+              this.visibleItems().forEach((item) => this.selected.delete(item.relPath));
+              this.render();
+            })
+          );
+
+        const listEl = contentEl.createDiv();
+        this.renderList(listEl);
+
+        if (this.skipped.length > 0) {
+          const details = contentEl.createEl("details");
+          details.createEl("summary", { text: `无法还原：${this.skipped.length} 个` });
+          const list = details.createEl("ul");
+          for (const item of this.skipped) {
+            list.createEl("li", { text: `${item.relPath} · ${item.reason}` });
+          }
+        }
+
+        new Setting(contentEl).addButton((button) =>
+          button
+            .setButtonText("还原所选文件")
+            .setCta()
+            .onClick(() => {
+              const selections = this.items
+                .filter((item) => this.selected.has(item.relPath))
+                .map((item) => ({ item, version: this.versions.get(item.relPath) ?? null }));
+              if (selections.length === 0) {
+                new Notice("请至少选择一个文件。");
+                return;
+              }
+              confirmRestore(this.task, selections, () => this.close());
+            })
+        );
+      }
+
+      visibleItems(): RestoreItem[] {
+        const filter = this.filter.toLowerCase();
+        return this.items.filter((item) => !filter || item.relPath.toLowerCase().includes(filter));
+      }
+
+      renderList(listEl: HTMLElement) {
+        listEl.empty();
+        const visible = this.visibleItems();
+        for (const item of visible.slice(0, maxListed)) {
+          const setting = new Setting(listEl)
+            .setName(item.relPath)
+            .setDesc(item.exists ? "将覆盖外部文件" : "外部文件不存在，将新建");
+          if (item.versions.length > 0) {
+            setting.addDropdown((dropdown) => {
+              dropdown.addOption("", "当前备份");
+              for (const version of item.versions) {
+                dropdown.addOption(version.path, formatDateTime(version.createdAt));
+              }
+              dropdown.setValue(this.versions.get(item.relPath)?.path ?? "").onChange((value) => {
+                const version = item.versions.find((candidate) => candidate.path === value);
+                if (version) {
+                  this.versions.set(item.relPath, version);
+                } else {
+                  this.versions.delete(item.relPath);
+                }
+              });
+            });
+          }
+          setting.addToggle((toggle) =>
+            toggle.setValue(this.selected.has(item.relPath)).onChange((value) => {
+              if (value) {
+                this.selected.add(item.relPath);
+              } else {
+                this.selected.delete(item.relPath);
+              }
+            })
+          );
+        }
+        if (visible.length > maxListed) {
+          listEl.createEl("p", { text: `……还有 ${visible.length - maxListed} 个，请使用筛选缩小范围` });
+        }
+        if (this.items.length === 0) {
+          listEl.createEl("p", { text: "目标中没有可还原的文件。" });
+        }
+      }
+
+      onClose() {
+        this.contentEl.empty();
+      }
+    }
+    new RestoreModal(this.app).open();
+  }
+
+  private async resolveFileMapping(
+    task: SyncTask,
+    relPath: string,
+    vaultBasePath: string
+  ): Promise<({ ok: true } & FileMapping) | { ok: false; reason: string }> {
+    if (task.command) {
+      return { ok: false, reason: "命令源没有对应的外部文件" };
+    }
+    const validation = this.validateTask(task, vaultBasePath);
+    if (!validation.ok) {
+      return validation;
+    }
+    const rules = this.getEffectiveRules(task);
+    const note = !rules.encrypt && rules.noteMode === "replace" && this.shouldRenderNote(relPath, rules);
+    const suffix = rules.encrypt ? ENCRYPTED_SUFFIX : note ? NOTE_SUFFIX : "";
+    let root = validation.target;
+    if (task.syncMode === "snapshot") {
+      const [latest] = await this.listSnapshots(validation.target);
+      if (!latest) {
+        return { ok: false, reason: "还没有快照" };
+      }
+      root = latest.path;
+    }
+    if (!fs.statSync(validation.source).isDirectory()) {
+      const fileTarget = task.syncMode === "snapshot" ? path.join(root, path.basename(validation.source)) : root;
+      const vaultFile = `${fileTarget}${suffix}`;
+      const versions =
+        task.syncMode === "snapshot"
+          ? []
+          : (await this.collectVersions(this.getVersionDir(fileTarget, vaultFile))).get("") ?? [];
+      return { ok: true, external: validation.source, vaultFile, encrypted: rules.encrypt, note, versions };
+    }
+    const targetRel = `${relPath}${suffix}`.split("/").join(path.sep);
+    const versions =
+      task.syncMode === "snapshot"
+        ? []
+        : (await this.collectVersions(path.join(root, VERSIONS_DIR, targetRel))).get("") ?? [];
+    return {
+      ok: true,
+      external: path.join(validation.source, relPath.split("/").join(path.sep)),
+      vaultFile: path.join(root, targetRel),
+      encrypted: rules.encrypt,
+      note,
+      versions
+    };
   }
 
-  private clearSchedule() {
-    if (this.scheduleIntervalId !== null) {
-      window.clearInterval(this.scheduleIntervalId);
-      this.scheduleIntervalId = null;
-    }
-    if (this.scheduleTimeoutId !== null) {
-      window.clearTimeout(this.scheduleTimeoutId);
-      this.scheduleTimeoutId = null;
+  getLocallyModified(task: SyncTask): string[] {
+    return Array.from(this.locallyModified.get(task.id) ?? []).sort();
+  }
+
+  private getLocalEditRoots(): string[] {
+    const day = new Date().toDateString();
+    if (this.localEditRoots?.day !== day) {
+      const roots = this.settings.tasks
+        .filter(
+          (task) =>
+            !task.command &&
+            task.syncMode !== "snapshot" &&
+            task.syncMode !== "bidirectional" &&
+            this.appliesToThisDevice(task)
+        )
+        .map((task) => this.resolveTargetPath(task))
+        .filter((resolved): resolved is string => resolved !== null)
+        .map((resolved) => normalizePath(resolved));
+      this.localEditRoots = { day, roots };
     }
+    return this.localEditRoots.roots;
   }
 
-  private setupSchedule() {
-    this.clearSchedule();
-    if (!this.settings.scheduleEnabled) {
+  private async checkLocalEdit(filePath: string) {
+    if (!this.getLocalEditRoots().some((root) => filePath === root || filePath.startsWith(`${root}/`))) {
       return;
     }
-
-    if (this.settings.scheduleMode === "interval") {
-      const minutes = Math.max(1, Number(this.settings.intervalMinutes) || 1);
-      const intervalMs = minutes * 60 * 1000;
-      this.scheduleIntervalId = window.setInterval(() => {
-        this.syncAllTasks();
-      }, intervalMs);
+    const vaultBasePath = this.getVaultBasePath();
+    const found = vaultBasePath ? this.findTaskForVaultFile(filePath) : null;
+    if (!vaultBasePath || !found || found.task.syncMode === "snapshot" || found.task.syncMode === "bidirectional") {
       return;
     }
-
-    const dailyTime = this.settings.dailyTime || "09:00";
-    const [hourStr, minuteStr] = dailyTime.split(":");
-    const hour = Math.min(23, Math.max(0, Number(hourStr) || 0));
-    const minute = Math.min(59, Math.max(0, Number(minuteStr) || 0));
-    const now = new Date();
-    const next = new Date(now);
-    next.setHours(hour, minute, 0, 0);
-    if (next <= now) {
-      next.setDate(next.getDate() + 1);
+    if (this.runningJobs.some((job) => job.task.id === found.task.id)) {
+      return;
     }
-    const delay = next.getTime() - now.getTime();
-    this.scheduleTimeoutId = window.setTimeout(() => {
-      this.syncAllTasks();
-      this.scheduleIntervalId = window.setInterval(() => {
-        this.syncAllTasks();
-      }, 24 * 60 * 60 * 1000);
-    }, delay);
+    const mapping = await this.resolveFileMapping(found.task, found.relPath, vaultBasePath);
+    if (!mapping.ok || path.normalize(mapping.vaultFile) !== path.join(vaultBasePath, filePath)) {
+      return;
+    }
+    let state = this.taskStateCache.get(found.task.id);
+    if (!state) {
+      state = await this.loadTaskState(vaultBasePath, found.task.id);
+      this.taskStateCache.set(found.task.id, state);
+    }
+    const known = state.files[found.relPath];
+    const stat = await fs.promises.stat(mapping.vaultFile).catch(() => null);
+    const modified = this.locallyModified.get(found.task.id) ?? new Set<string>();
+    if (known && stat && !this.matchesTargetState(known, stat)) {
+      modified.add(found.relPath);
+    } else {
+      modified.delete(found.relPath);
+    }
+    this.locallyModified.set(found.task.id, modified);
   }
 
-  getVaultBasePath(): string | null {
-    const adapter = this.app.vault.adapter;
-    if (!(adapter instanceof FileSystemAdapter)) {
-      return null;
+  private findTaskForVaultFile(filePath: string): { task: SyncTask; relPath: string } | null {
+    for (const task of this.settings.tasks) {
+      const resolved = this.resolveTargetPath(task);
+      if (task.command || !resolved || !this.appliesToThisDevice(task)) {
+        continue;
+      }
+      const targetPath = normalizePath(resolved);
+      if (filePath !== targetPath && !filePath.startsWith(`${targetPath}/`)) {
+        continue;
+      }
+      const rules = this.getEffectiveRules(task);
+      let rest = filePath === targetPath ? "" : filePath.slice(targetPath.length + 1);
+      if (task.syncMode === "snapshot") {
+        const [snapshotName, ...segments] = rest.split("/");
+        if (parseSnapshotName(snapshotName) === null) {
+          continue;
+        }
+        rest = segments.join("/");
+      }
+      const [firstSegment] = rest.split("/");
+      if (firstSegment === VERSIONS_DIR || (rules.indexNote && rest === INDEX_NOTE_NAME)) {
+        continue;
+      }
+      if (rules.encrypt && rest.endsWith(ENCRYPTED_SUFFIX)) {
+        rest = rest.slice(0, -ENCRYPTED_SUFFIX.length);
+      } else if (
+        rules.noteMode !== "off" &&
+        rest.endsWith(NOTE_SUFFIX) &&
+        this.shouldRenderNote(rest.slice(0, -NOTE_SUFFIX.length), rules)
+      ) {
+        rest = rest.slice(0, -NOTE_SUFFIX.length);
+      }
+      const source = this.resolveSourcePath(task);
+      const sourceIsDirectory =
+        Boolean(task.sources) || Boolean(source && fs.existsSync(source) && fs.statSync(source).isDirectory());
+      if (!sourceIsDirectory) {
+        return { task, relPath: path.basename(source ?? rest) };
+      }
+      if (rest) {
+        return { task, relPath: rest };
+      }
     }
-    return adapter.getBasePath();
+    return null;
   }
 
-  private validateTask(
-    task: SyncTask,
-    vaultBasePath: string
-  ): { ok: true; source: string; target: string } | { ok: false; reason: string } {
-    if (!task.sourcePath.trim()) {
-      return { ok: false, reason: "源路径为空" };
+  showDiffForActiveFile() {
+    const file = this.app.workspace.getActiveFile();
+    if (!file) {
+      new Notice("没有打开的文件。");
+      return;
     }
-    if (!task.targetPath.trim()) {
-      return { ok: false, reason: "目标路径为空" };
+    const found = this.findTaskForVaultFile(file.path);
+    if (!found) {
+      new Notice("当前文件不属于任何同步任务。");
+      return;
     }
+    this.showDiffModal(found.task, found.relPath);
+  }
 
-    const source = path.normalize(task.sourcePath);
-    if (!fs.existsSync(source)) {
-      return { ok: false, reason: "源路径不存在" };
+  private async readVaultCopy(mapping: FileMapping, file: string): Promise<Buffer> {
+    let content: Buffer = await fs.promises.readFile(file);
+    if (mapping.encrypted) {
+      const salt = readEncryptionSalt(content);
+      const key = salt ? await this.getKeyForSalt(salt) : null;
+      if (!salt || !key) {
+        throw Object.assign(new Error("不是有效的加密文件或未设置口令"), { code: "EFORMAT" });
+      }
+      content = decryptBuffer(content, key);
     }
+    return mapping.note ? Buffer.from(extractNoteBody(content.toString("utf8"))) : content;
+  }
 
-    if (path.isAbsolute(task.targetPath)) {
-      return { ok: false, reason: "目标路径必须是 Vault 内相对路径" };
+  async showDiffModal(task: SyncTask, relPath: string) {
+    const vaultBasePath = this.getVaultBasePath();
+    if (!vaultBasePath) {
+      new Notice("此插件仅支持桌面端文件系统适配器。");
+      return;
     }
-
-    const targetBase = path.normalize(task.targetPath);
-    const targetAbs = path.join(vaultBasePath, targetBase);
-    const rel = path.relative(vaultBasePath, targetAbs);
-    if (rel.startsWith("..")) {
-      return { ok: false, reason: "目标路径必须在 Vault 内" };
+    const resolved = await this.resolveFileMapping(task, relPath, vaultBasePath);
+    if (!resolved.ok) {
+      new Notice(`无法对比：${resolved.reason}`);
+      return;
     }
+    const mapping: FileMapping = resolved;
+    const plugin = this;
+    const load = async (file: string, readVaultCopy: boolean) => {
+      const stat = await fs.promises.stat(file).catch(() => null);
+      if (!stat) {
+        return null;
+      }
+      const content = readVaultCopy ? await plugin.readVaultCopy(mapping, file) : await fs.promises.readFile(file);
+      return {
+        content,
+        size: content.length,
+        mtimeMs: stat.mtimeMs,
+        hash: createHash("sha256").update(content).digest("hex"),
+        binary: content.subarray(0, 8000).includes(0)
+      };
+    };
 
-    const sourceStat = fs.statSync(source);
-    let finalTarget = targetAbs;
-    if (sourceStat.isFile()) {
-      const targetEndsWithSlash = task.targetPath.endsWith("/") || task.targetPath.endsWith(path.sep);
-      if (targetEndsWithSlash || (fs.existsSync(targetAbs) && fs.statSync(targetAbs).isDirectory())) {
-        finalTarget = path.join(targetAbs, path.basename(source));
+    class DiffModal extends Modal {
+      private version: FileVersion | null = null;
+
+      onOpen() {
+        this.modalEl.addClass("external-sync-diff-modal");
+        this.render();
       }
-    } else if (sourceStat.isDirectory()) {
-      if (fs.existsSync(targetAbs) && fs.statSync(targetAbs).isFile()) {
-        return { ok: false, reason: "源为目录时目标不能是文件" };
+
+      async render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: `对比：${relPath}` });
+        contentEl
+          .createEl("p", { text: `${task.name || task.id} · 左：Vault 副本，右：外部文件` })
+          .addClass("external-sync-inline-note");
+
+        if (mapping.versions.length > 0) {
+          new Setting(contentEl).setName("Vault 侧").addDropdown((dropdown) => {
+            dropdown.addOption("", "当前副本");
+            for (const version of mapping.versions) {
+              dropdown.addOption(version.path, `历史版本 ${formatDateTime(version.createdAt)}`);
+            }
+            dropdown.setValue(this.version?.path ?? "").onChange((value) => {
+              this.version = mapping.versions.find((version) => version.path === value) ?? null;
+              this.render();
+            });
+          });
+        }
+
+        let left: Awaited<ReturnType<typeof load>>;
+        let right: Awaited<ReturnType<typeof load>>;
+        try {
+          left = await load(this.version?.path ?? mapping.vaultFile, true);
+          right = await load(mapping.external, false);
+        } catch (error) {
+          console.warn(`[External Sync Bridge] 读取对比文件失败: ${relPath}`, error);
+          const { code, message } = toFileError(relPath, "read", error);
+          contentEl.createEl("p", { text: `读取失败（${code}: ${message}）` });
+          return;
+        }
+
+        const meta = contentEl.createEl("table");
+        meta.addClass("external-sync-diff-meta");
+        const header = meta.createEl("tr");
+        for (const label of ["", "Vault 副本", "外部文件"]) {
+          header.createEl("th", { text: label });
+        }
+        const metaRows: [string, (side: NonNullable<typeof left>) => string][] = [
+          ["路径", () => ""],
+          ["大小", (side) => formatBytes(side.size)],
+          ["修改时间", (side) => formatDateTime(side.mtimeMs)],
+          ["SHA-256", (side) => side.hash.slice(0, 16)]
+        ];
+        for (const [label, format] of metaRows) {
+          const row = meta.createEl("tr");
+          row.createEl("td", { text: label });
+          if (label === "路径") {
+            row.createEl("td", { text: this.version?.path ?? mapping.vaultFile });
+            row.createEl("td", { text: mapping.external });
+            continue;
+          }
+          row.createEl("td", { text: left ? format(left) : "不存在" });
+          row.createEl("td", { text: right ? format(right) : "不存在" });
+        }
+
+        if (left && right && left.hash === right.hash) {
+          contentEl.createEl("p", { text: "内容相同。" });
+          return;
+        }
+        if (left?.binary || right?.binary) {
+          contentEl.createEl("p", { text: "二进制文件，仅显示元数据。" });
+          return;
+        }
+        const split = (side: typeof left) => {
+          if (!side) {
+            return [];
+          }
+          const lines = side.content.toString("utf8").split(/\r?\n/);
+          return lines[lines.length - 1] === "" ? lines.slice(0, -1) : lines;
+        };
+        const ops = diffLines(split(left), split(right));
+        if (!ops) {
+          contentEl.createEl("p", { text: "差异过大，仅显示元数据。" });
+          return;
+        }
+        const rows = toDiffRows(ops);
+        const table = contentEl.createEl("table");
+        table.addClass("external-sync-diff");
+        const near = (index: number) =>
+          rows.slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1).some((row) => row.changed);
+        for (let index = 0; index < rows.length; index++) {
+          if (!near(index)) {
+            let end = index;
+            while (end < rows.length && !near(end)) {
+              end++;
+            }
+            const gap = table.createEl("tr");
+            gap.addClass("external-sync-diff-gap");
+            gap.createEl("td", { text: `⋯ ${end - index} 行相同`, attr: { colspan: "4" } });
+            index = end - 1;
+            continue;
+          }
+          const row = rows[index];
+          const tr = table.createEl("tr");
+          for (const [side, cls] of [
+            [row.left, "external-sync-diff-removed"],
+            [row.right, "external-sync-diff-added"]
+          ] as const) {
+            tr.createEl("td", { text: side ? String(side.line) : "" }).addClass("external-sync-diff-line");
+            const cell = tr.createEl("td", { text: side?.text ?? "" });
+            cell.addClass("external-sync-diff-text");
+            if (row.changed) {
+              cell.addClass(side ? cls : "external-sync-diff-empty");
+            }
+          }
+        }
       }
-    }
 
-    return { ok: true, source, target: finalTarget };
+      onClose() {
+        this.contentEl.empty();
+      }
+    }
+    new DiffModal(this.app).open();
   }
 
-  private async hashFile(filePath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const hash = createHash("sha256");
-      const stream = fs.createReadStream(filePath);
-      stream.on("error", (error) => reject(error));
-      stream.on("data", (chunk) => hash.update(chunk));
-      stream.on("end", () => resolve(hash.digest("hex")));
-    });
+  showVersionsForActiveFile() {
+    const file = this.app.workspace.getActiveFile();
+    if (!file) {
+      new Notice("没有打开的文件。");
+      return;
+    }
+    for (const task of this.settings.tasks) {
+      const resolved = this.resolveTargetPath(task);
+      if (!task.versions?.enabled || !resolved) {
+        continue;
+      }
+      const targetPath = normalizePath(resolved);
+      if (file.path === targetPath) {
+        this.showVersionsModal(task, path.basename(targetPath));
+        return;
+      }
+      if (file.path.startsWith(`${targetPath}/`)) {
+        this.showVersionsModal(task, file.path.slice(targetPath.length + 1));
+        return;
+      }
+    }
+    new Notice("当前文件不属于启用了历史版本的同步任务。");
   }
 
-  async syncAllTasks() {
+  async showVersionsModal(task: SyncTask, onlyRelPath?: string) {
     const vaultBasePath = this.getVaultBasePath();
     if (!vaultBasePath) {
       new Notice("此插件仅支持桌面端文件系统适配器。");
       return;
     }
-
-    const enabledTasks = this.settings.tasks.filter((task) => task.enabled);
-    if (enabledTasks.length === 0) {
-      new Notice("没有启用的同步任务。");
+    const targetPath = this.resolveTargetPath(task);
+    if (!targetPath) {
+      new Notice("目标路径无效。");
       return;
     }
+    const targetRoot = path.join(vaultBasePath, targetPath);
+    const targetStat = await fs.promises.lstat(targetRoot).catch(() => null);
+    const isFileTarget = Boolean(targetStat?.isFile());
+    const versionsRoot = isFileTarget ? this.getVersionDir(targetRoot, targetRoot) : path.join(targetRoot, VERSIONS_DIR);
+    const resolveTarget = (relPath: string) =>
+      isFileTarget ? targetRoot : path.join(targetRoot, relPath.split("/").join(path.sep));
 
-    let successCount = 0;
-    let failCount = 0;
-    const failures: string[] = [];
+    const loadGroups = async () => {
+      const collected = await this.collectVersions(versionsRoot);
+      const groups = isFileTarget
+        ? new Map([[path.basename(targetRoot), collected.get("") ?? []]])
+        : collected;
+      return Array.from(groups.entries())
+        .filter(([relPath, versions]) => versions.length > 0 && (!onlyRelPath || relPath === onlyRelPath))
+        .sort(([a], [b]) => a.localeCompare(b));
+    };
 
-    for (const task of enabledTasks) {
-      const result = await this.syncTaskInternal(task, vaultBasePath);
-      if (result.ok) {
-        successCount++;
-      } else {
-        failCount++;
-        failures.push(`${task.name || task.id}: ${result.reason}`);
+    const restore = async (relPath: string, version: FileVersion) => {
+      if (this.isSyncBusy()) {
+        new Notice("同步进行中，请稍后再恢复。");
+        return false;
       }
-    }
+      const target = resolveTarget(relPath);
+      try {
+        await this.archiveVersion(targetRoot, target);
+        await fsExtra.copy(version.path, target, { overwrite: true, preserveTimestamps: true });
+        await this.recordRestoredCopy(task, target, vaultBasePath);
+        new Notice(`已恢复 ${relPath}（${formatDateTime(version.createdAt)} 的版本）`);
+        return true;
+      } catch (error) {
+        console.error(`[External Sync Bridge] 恢复历史版本失败: ${version.path}`, error);
+        new Notice(`恢复失败：${relPath}`);
+        return false;
+      }
+    };
 
-    if (successCount > 0) {
-      new Notice(`同步完成：成功 ${successCount} 项，失败 ${failCount} 项。`);
-    } else {
-      new Notice(`同步失败：失败 ${failCount} 项。`);
+    const groups = await loadGroups();
+    const taskName = task.name || task.id;
+    class VersionsModal extends Modal {
+      private groups: Array<[string, FileVersion[]]>;
+      constructor(app: App, groups: Array<[string, FileVersion[]]>) {
+        super(app);
+        this.groups = groups;
+      }
+      onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: `历史版本：${taskName}` });
+        contentEl
+          .createEl("p", {
+            text: "恢复前会先把当前文件保存为新版本；恢复的内容不算作 Vault 中的修改，会保留到外部源文件下次变化，届时同步会覆盖它。"
+          })
+          .addClass("external-sync-inline-note");
+        if (this.groups.length === 0) {
+          contentEl.createEl("p", { text: onlyRelPath ? `${onlyRelPath} 暂无历史版本。` : "暂无历史版本。" });
+          return;
+        }
+        for (const [relPath, versions] of this.groups) {
+          const details = contentEl.createEl("details");
+          details.open = this.groups.length === 1;
+          const deletedNote = fs.existsSync(resolveTarget(relPath)) ? "" : " · 已删除";
+          details.createEl("summary", { text: `${relPath}（${versions.length} 个版本）${deletedNote}` });
+          for (const version of versions) {
+            new Setting(details)
+              .setName(formatDateTime(version.createdAt))
+              .setDesc(`${formatBytes(version.size)} · ${path.basename(version.path)}`)
+              .addButton((button) =>
+                button.setButtonText("恢复").onClick(async () => {
+                  if (await restore(relPath, version)) {
+                    this.groups = await loadGroups();
+                    this.onOpen();
+                  }
+                })
+              );
+          }
+        }
+      }
+      onClose() {
+        this.contentEl.empty();
+      }
     }
+    new VersionsModal(this.app, groups).open();
+  }
 
-    if (failures.length > 0) {
-      console.warn("[External Sync Bridge] 失败详情", failures);
-      this.showFailureModal(failures);
+  private async recordRestoredCopy(task: SyncTask, vaultFile: string, vaultBasePath: string) {
+    const found = this.findTaskForVaultFile(path.relative(vaultBasePath, vaultFile).split(path.sep).join("/"));
+    if (!found || found.task.id !== task.id) {
+      return;
+    }
+    const state = await this.loadTaskState(vaultBasePath, task.id);
+    const known = state.files[found.relPath];
+    if (!known) {
+      return;
     }
+    const stat = await fs.promises.stat(vaultFile);
+    state.files[found.relPath] = { ...known, targetSize: stat.size, targetMtimeMs: stat.mtimeMs };
+    await this.saveTaskState(vaultBasePath, task.id, state);
+    this.locallyModified.get(task.id)?.delete(found.relPath);
   }
 
-  async syncSingleTask(task: SyncTask) {
-    const vaultBasePath = this.getVaultBasePath();
-    if (!vaultBasePath) {
-      new Notice("此插件仅支持桌面端文件系统适配器。");
+  private async removeTargetFile(vaultBasePath: string, filePath: string) {
+    const mode = this.settings.mirrorDeleteMode;
+    if (mode === "delete") {
+      await fsExtra.remove(filePath);
       return;
     }
-    const result = await this.syncTaskInternal(task, vaultBasePath);
-    if (result.ok) {
-      new Notice(`任务同步成功：${task.name || task.id}`);
-    } else {
-      new Notice(`任务同步失败：${task.name || task.id}`);
-      this.showFailureModal([`${task.name || task.id}: ${result.reason}`]);
+    const vaultRel = path.relative(vaultBasePath, filePath).split(path.sep).join("/");
+    const adapter = this.app.vault.adapter;
+    if (mode === "system-trash" && (await adapter.trashSystem(vaultRel))) {
+      return;
     }
+    await adapter.trashLocal(vaultRel);
   }
 
-  private async syncTaskInternal(
-    task: SyncTask,
-    vaultBasePath: string
-  ): Promise<{ ok: true } | { ok: false; reason: string }> {
-    const validation = this.validateTask(task, vaultBasePath);
-    if (!validation.ok) {
-      return { ok: false, reason: validation.reason };
+  private async pruneEmptyDirs(dir: string, sourceRoot: string, targetRoot: string) {
+    let current = dir;
+    while (current !== targetRoot && !path.relative(targetRoot, current).startsWith("..")) {
+      const rel = path.relative(targetRoot, current);
+      const entries = await fs.promises.readdir(current).catch(() => null);
+      if (!entries || entries.length > 0 || fs.existsSync(path.join(sourceRoot, rel))) {
+        return;
+      }
+      await fs.promises.rmdir(current);
+      current = path.dirname(current);
     }
+  }
 
-    const source = validation.source;
-    const target = validation.target;
+  private showPlanModal(plans: SyncPlan[], failures: string[], onRun: () => void) {
+    const groups: { action: SyncPlanAction; label: string }[] = [
+      { action: "create", label: "将新建" },
+      { action: "overwrite", label: "将覆盖" },
+      { action: "delete", label: "将删除" },
+      { action: "unchanged", label: "跳过（未变化）" },
+      { action: "excluded", label: "跳过（已排除）" },
+      { action: "failed", label: "无法读取" }
+    ];
+    const maxListed = 500;
+    const plugin = this;
+    class PlanModal extends Modal {
+      onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "同步预览" });
+        contentEl.createEl("p", { text: "以下为模拟结果，未写入任何文件。" }).addClass("external-sync-inline-note");
 
-    try {
-      const targetDir = path.dirname(target);
-      await fsExtra.ensureDir(targetDir);
-      const excludePatterns = this.settings.excludePatterns;
-      const sourceRoot = source;
-      const compareMode = this.settings.compareMode;
-
-      await fsExtra.copy(source, target, {
-        overwrite: true,
-        preserveTimestamps: true,
-        filter: async (src, dest) => {
-          const rel = path.relative(sourceRoot, src);
-          if (!rel || rel === "") return true;
-
-          const relPosix = rel.split(path.sep).join("/");
-          if (excludePatterns.length > 0 && micromatch.isMatch(relPosix, excludePatterns, { dot: true })) {
-            return false;
+        if (failures.length > 0) {
+          contentEl.createEl("h3", { text: "无法同步" });
+          const list = contentEl.createEl("ul");
+          for (const item of failures) {
+            list.createEl("li", { text: item });
           }
+        }
 
-          try {
-            const srcStat = await fs.promises.stat(src);
-            if (srcStat.isDirectory()) {
-              return true;
+        for (const plan of plans) {
+          contentEl.createEl("h3", { text: plan.task.name || plan.task.id });
+          contentEl.createEl("p", { text: `${plan.source} → ${plan.target}` }).addClass("external-sync-inline-note");
+          for (const group of groups) {
+            const items = plan.entries.filter((entry) => entry.action === group.action);
+            if (items.length === 0) {
+              continue;
             }
-            if (fs.existsSync(dest)) {
-              const destStat = await fs.promises.stat(dest);
-              if (destStat.isFile()) {
-                if (compareMode === "hash") {
-                  const [srcHash, destHash] = await Promise.all([
-                    this.hashFile(src),
-                    this.hashFile(dest)
-                  ]);
-                  if (srcHash === destHash) {
-                    return false;
-                  }
-                } else {
-                  const sameSize = destStat.size === srcStat.size;
-                  const sameMtime = Math.floor(destStat.mtimeMs) === Math.floor(srcStat.mtimeMs);
-                  if (sameSize && sameMtime) {
-                    return false;
-                  }
-                }
+            const bytes = items.reduce((sum, entry) => sum + entry.size, 0);
+            const details = contentEl.createEl("details");
+            details.createEl("summary", { text: `${group.label}：${items.length} 项，${formatBytes(bytes)}` });
+            const list = details.createEl("ul");
+            for (const entry of items.slice(0, maxListed)) {
+              const label = entry.isDirectory ? `${entry.relPath}/` : `${entry.relPath}（${formatBytes(entry.size)}）`;
+              const reason = entry.error
+                ? ` · ${FILE_OPERATION_LABELS[entry.error.operation]}失败（${entry.error.code}）`
+                : entry.localEdit
+                  ? ` · Vault 中已被修改（${LOCAL_EDIT_LABELS[plan.task.onLocalEdit ?? "overwrite"]}）`
+                  : entry.linkFrom
+                    ? " · 硬链接到上一快照"
+                    : entry.skipReason === "not-included"
+                      ? " · 未命中包含规则"
+                      : entry.skipReason === "ignored"
+                        ? " · .gitignore"
+                        : "";
+              const item = list.createEl("li", { text: `${label}${reason}` });
+              const comparable = entry.action === "create" || entry.action === "overwrite" || entry.action === "unchanged";
+              if (comparable && !entry.isDirectory) {
+                const link = item.createEl("a", { text: " 对比", href: "#" });
+                link.addEventListener("click", (event) => {
+                  event.preventDefault();
+                  plugin.showDiffModal(plan.task, entry.relPath);
+                });
               }
             }
-          } catch (error) {
-            console.warn(`[External Sync Bridge] 过滤判断失败: ${src}`, error);
+            if (items.length > maxListed) {
+              list.createEl("li", { text: `……还有 ${items.length - maxListed} 项` });
+            }
+          }
+          if (plan.entries.length === 0) {
+            contentEl.createEl("p", { text: "源中没有可同步的文件。" });
           }
-          return true;
         }
-      });
-      return { ok: true };
-    } catch (error) {
-      console.error(`[External Sync Bridge] 同步失败: ${task.name}`, error);
-      return { ok: false, reason: "同步失败" };
+
+        const actions = contentEl.createEl("div");
+        actions.style.display = "flex";
+        actions.style.gap = "8px";
+        actions.style.marginTop = "12px";
+        const runButton = actions.createEl("button", { text: "立即同步" });
+        runButton.addClass("mod-cta");
+        runButton.disabled = plans.length === 0;
+        runButton.addEventListener("click", () => {
+          this.close();
+          onRun();
+        });
+        const closeButton = actions.createEl("button", { text: "关闭" });
+        closeButton.addEventListener("click", () => this.close());
+      }
+      onClose() {
+        this.contentEl.empty();
+      }
+    }
+    new PlanModal(this.app).open();
+  }
+
+  private showReportModal(report: SyncRunReport) {
+    const plugin = this;
+    class ReportModal extends Modal {
+      onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "同步报告" });
+        contentEl
+          .createEl("p", {
+            text: `${formatDateTime(report.startedAt)} 开始（${TRIGGER_LABELS[report.trigger]}），耗时 ${formatDuration(
+              report.finishedAt - report.startedAt
+            )}`
+          })
+          .addClass("external-sync-inline-note");
+
+        const renderHooks = (hooks: HookResult[]) => {
+          for (const hook of hooks) {
+            const details = contentEl.createEl("details");
+            details.open = !hook.ok;
+            details.createEl("summary", { text: formatHookResult(hook) });
+            details.createEl("pre", { text: hook.output || "（无输出）", cls: "external-sync-hook-output" });
+          }
+        };
+        renderHooks(report.hooks.filter((hook) => hook.stage === "pre-run"));
+
+        for (const task of report.tasks) {
+          const status = task.ok ? "成功" : task.cancelled ? "已取消" : "失败";
+          contentEl.createEl("h3", { text: `${task.taskName} · ${status}` });
+          if (task.reason && !task.ok) {
+            contentEl.createEl("p", { text: task.reason });
+          }
+          const { copied, skipped, excluded, deleted, failed, bytes } = task.stats;
+          contentEl.createEl("p", {
+            text: `复制 ${copied} 个（${formatBytes(bytes)}），未变化 ${skipped} 个，排除 ${excluded} 个，删除 ${deleted} 个，出错 ${failed} 个`
+          });
+          renderHooks(task.hooks);
+          if (task.errors.length > 0) {
+            const details = contentEl.createEl("details");
+            details.createEl("summary", { text: `出错 ${task.errors.length} 个文件` });
+            const list = details.createEl("ul");
+            for (const error of task.errors) {
+              list.createEl("li", { text: formatFileError(error) });
+            }
+          }
+          if (task.warnings.length > 0) {
+            const details = contentEl.createEl("details");
+            details.createEl("summary", { text: `${task.warnings.length} 条提示` });
+            const list = details.createEl("ul");
+            for (const warning of task.warnings) {
+              list.createEl("li", { text: formatSyncWarning(warning) });
+            }
+          }
+          if (task.secrets.length > 0) {
+            const details = contentEl.createEl("details");
+            details.open = true;
+            details.createEl("summary", { text: `发现 ${task.secrets.length} 处疑似敏感信息` });
+            const list = details.createEl("ul");
+            for (const finding of task.secrets) {
+              list.createEl("li", { text: formatSecretFinding(finding) });
+            }
+          }
+          const syncTask = plugin.settings.tasks.find((item) => item.id === task.taskId);
+          if (task.copied.length > 0) {
+            const details = contentEl.createEl("details");
+            details.createEl("summary", { text: `已复制 ${task.copied.length} 个文件` });
+            const list = details.createEl("ul");
+            for (const file of task.copied) {
+              const item = list.createEl("li", { text: file });
+              if (syncTask && !syncTask.command) {
+                const link = item.createEl("a", { text: " 对比", href: "#" });
+                link.addEventListener("click", (event) => {
+                  event.preventDefault();
+                  plugin.showDiffModal(syncTask, file);
+                });
+              }
+            }
+          }
+          if (task.localEdits.length > 0) {
+            const details = contentEl.createEl("details");
+            details.open = true;
+            details.createEl("summary", { text: `${task.localEdits.length} 个文件在 Vault 中被修改过` });
+            const list = details.createEl("ul");
+            for (const edit of task.localEdits) {
+              list.createEl("li", { text: `${edit.path}（${LOCAL_EDIT_LABELS[edit.action]}）` });
+            }
+          }
+          if (task.conflicts.length > 0) {
+            const details = contentEl.createEl("details");
+            details.open = true;
+            details.createEl("summary", { text: `${task.conflicts.length} 个冲突待处理` });
+            const list = details.createEl("ul");
+            for (const file of task.conflicts) {
+              list.createEl("li", { text: file });
+            }
+            const resolveButton = details.createEl("button", { text: "处理冲突" });
+            resolveButton.addEventListener("click", () => {
+              this.close();
+              plugin.showConflictsModal();
+            });
+          }
+          if (task.deleted.length > 0) {
+            const details = contentEl.createEl("details");
+            details.createEl("summary", { text: `已删除 ${task.deleted.length} 个文件` });
+            const list = details.createEl("ul");
+            for (const file of task.deleted) {
+              list.createEl("li", { text: file });
+            }
+          }
+        }
+        renderHooks(report.hooks.filter((hook) => hook.stage === "post-run"));
+
+        const copyButton = contentEl.createEl("button", { text: "复制到剪贴板" });
+        copyButton.addEventListener("click", async () => {
+          try {
+            await navigator.clipboard.writeText(formatReportText(report));
+            new Notice("已复制同步报告");
+          } catch {
+            new Notice("复制失败");
+          }
+        });
+      }
+      onClose() {
+        this.contentEl.empty();
+      }
     }
+    new ReportModal(this.app).open();
   }
 
-  private showFailureModal(failures: string[]) {
+  private showFailureModal(failures: TaskFailure[], deletions: string[] = []) {
     class FailureModal extends Modal {
-      private items: string[];
-      constructor(app: App, items: string[]) {
+      private items: TaskFailure[];
+      private deletions: string[];
+      constructor(app: App, items: TaskFailure[], deletions: string[]) {
         super(app);
         this.items = items;
+        this.deletions = deletions;
       }
       onOpen() {
         const { contentEl } = this;
         contentEl.empty();
-        contentEl.createEl("h2", { text: "同步失败详情" });
-        const list = contentEl.createEl("ul");
+        const failed = this.items.some((item) => item.reason || item.errors.length > 0);
+        contentEl.createEl("h2", { text: failed ? "同步失败详情" : "同步详情" });
         for (const item of this.items) {
-          const li = list.createEl("li");
-          li.setText(item);
+          contentEl.createEl("h3", { text: item.taskName });
+          if (item.reason) {
+            contentEl.createEl("p", { text: item.reason });
+          }
+          const byCode = new Map<string, FileError[]>();
+          for (const error of item.errors) {
+            byCode.set(error.code, [...(byCode.get(error.code) ?? []), error]);
+          }
+          for (const [code, errors] of byCode) {
+            const details = contentEl.createEl("details");
+            details.createEl("summary", { text: `${code}：${errors.length} 个文件` });
+            const list = details.createEl("ul");
+            for (const error of errors) {
+              list.createEl("li", {
+                text: `${error.path}（${FILE_OPERATION_LABELS[error.operation]}）${error.message}`
+              });
+            }
+          }
+          const warnings = item.warnings ?? [];
+          if (warnings.length > 0) {
+            const details = contentEl.createEl("details");
+            details.open = true;
+            details.createEl("summary", { text: `STDERR：${warnings.length} 条` });
+            const list = details.createEl("ul");
+            for (const warning of warnings) {
+              list.createEl("li", { text: formatSyncWarning(warning) });
+            }
+          }
         }
-        const copyButton = contentEl.createEl("button", { text: "复制到剪贴板" });
+        if (this.deletions.length > 0) {
+          contentEl.createEl("h3", { text: `同步已删除 ${this.deletions.length} 个文件` });
+          const list = contentEl.createEl("ul");
+          for (const item of this.deletions) {
+            const li = list.createEl("li");
+            li.setText(item);
+          }
+        }
+        const actions = contentEl.createEl("div");
+        actions.style.display = "flex";
+        actions.style.gap = "8px";
+        const copyButton = actions.createEl("button", { text: "复制为文本" });
         copyButton.addEventListener("click", async () => {
+          const lines: string[] = [];
+          for (const item of this.items) {
+            lines.push(item.reason ? `${item.taskName}: ${item.reason}` : `${item.taskName}:`);
+            lines.push(...item.errors.map((error) => `  ${formatFileError(error)}`));
+            lines.push(...(item.warnings ?? []).map((warning) => `  STDERR ${formatSyncWarning(warning)}`));
+          }
+          if (this.deletions.length > 0) {
+            lines.push("已删除：", ...this.deletions);
+          }
+          try {
+            await navigator.clipboard.writeText(lines.join("\n"));
+            new Notice("已复制失败详情");
+          } catch (error) {
+            new Notice("复制失败");
+          }
+        });
+        const jsonButton = actions.createEl("button", { text: "复制为 JSON" });
+        jsonButton.addEventListener("click", async () => {
           try {
-            await navigator.clipboard.writeText(this.items.join("\n"));
+            await navigator.clipboard.writeText(
+              JSON.stringify({ failures: this.items, deleted: this.deletions }, null, 2)
+            );
             new Notice("已复制失败详情");
           } catch (error) {
             new Notice("复制失败");
@@ -419,7 +5806,7 @@ export default class ExternalSyncBridgePlugin extends Plugin {
         contentEl.empty();
       }
     }
-    new FailureModal(this.app, failures).open();
+    new FailureModal(this.app, failures, deletions).open();
   }
 
   showExportModal() {
@@ -528,6 +5915,48 @@ export default class ExternalSyncBridgePlugin extends Plugin {
   }
 }
 
+function addHookSettings(
+  containerEl: HTMLElement,
+  name: string,
+  desc: string,
+  hook: SyncHook | undefined,
+  allowAbort: boolean,
+  save: (hook: SyncHook | undefined) => Promise<void>
+) {
+  const current: SyncHook = { command: "", ...hook };
+  const commit = () => save(current.command.trim() ? { ...current } : undefined);
+  new Setting(containerEl)
+    .setName(name)
+    .setDesc(desc)
+    .addTextArea((text) =>
+      text.setValue(current.command).onChange(async (value) => {
+        current.command = value;
+        await commit();
+      })
+    );
+  new Setting(containerEl).setName(`${name}超时（秒）`).addText((text) =>
+    text
+      .setPlaceholder(String(DEFAULT_COMMAND_TIMEOUT_SECONDS))
+      .setValue(current.timeoutSeconds ? String(current.timeoutSeconds) : "")
+      .onChange(async (value) => {
+        const seconds = Number(value);
+        current.timeoutSeconds = Number.isFinite(seconds) && seconds > 0 ? Math.floor(seconds) : undefined;
+        await commit();
+      })
+  );
+  if (allowAbort) {
+    new Setting(containerEl)
+      .setName(`${name}失败时中止同步`)
+      .setDesc("关闭时仅在报告中记录失败，继续同步")
+      .addToggle((toggle) =>
+        toggle.setValue(Boolean(current.abortOnFailure)).onChange(async (value) => {
+          current.abortOnFailure = value;
+          await commit();
+        })
+      );
+  }
+}
+
 class ExternalSyncSettingTab extends PluginSettingTab {
   plugin: ExternalSyncBridgePlugin;
 
@@ -556,11 +5985,16 @@ class ExternalSyncSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("一键同步")
-      .setDesc("立即执行所有启用的同步任务")
+      .setDesc("立即执行所有启用的同步任务，或先预览同步计划")
       .addButton((button) =>
         button.setButtonText("同步全部").setCta().onClick(() => {
           this.plugin.syncAllTasks();
         })
+      )
+      .addButton((button) =>
+        button.setButtonText("预览").onClick(() => {
+          this.plugin.previewAllTasks();
+        })
       );
 
     new Setting(containerEl)
@@ -579,7 +6013,7 @@ class ExternalSyncSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("定时同步")
-      .setDesc("启用后按指定时间自动同步")
+      .setDesc("启用后按指定时间自动同步；任务可在编辑中单独设置定时，错过的运行会在启动后补跑一次")
       .addToggle((toggle) =>
         toggle.setValue(this.plugin.settings.scheduleEnabled).onChange(async (value) => {
           this.plugin.settings.scheduleEnabled = value;
@@ -628,6 +6062,74 @@ class ExternalSyncSettingTab extends PluginSettingTab {
       }
     }
 
+    new Setting(containerEl)
+      .setName("最大并行任务数")
+      .setDesc("同时执行的同步任务上限；目标路径重叠的任务始终依次执行")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.maxParallelJobs)).onChange(async (value) => {
+          const count = Number(value);
+          this.plugin.settings.maxParallelJobs = Number.isFinite(count) ? Math.max(1, Math.floor(count)) : 1;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("运行历史保留条数")
+      .setDesc("记录每次同步的触发方式、耗时与各任务的文件数，超出后丢弃最早的记录")
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings.historyLimit)).onChange(async (value) => {
+          const count = Number(value);
+          this.plugin.settings.historyLimit = Number.isFinite(count) ? Math.max(1, Math.floor(count)) : 100;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("写入同步日志笔记")
+      .setDesc("每次同步后把运行历史以表格形式写入 Vault 中的 Markdown 笔记，便于 Git 与搜索追溯")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.logNoteEnabled).onChange(async (value) => {
+          this.plugin.settings.logNoteEnabled = value;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    if (this.plugin.settings.logNoteEnabled) {
+      new Setting(containerEl)
+        .setName("日志笔记路径")
+        .setDesc("相对 Vault 根目录，例如 Logs/External Sync Log.md")
+        .addText((text) =>
+          text.setValue(this.plugin.settings.logNotePath).onChange(async (value) => {
+            this.plugin.settings.logNotePath = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    addHookSettings(
+      containerEl,
+      "全局同步前钩子",
+      "同步全部任务（含定时同步）开始前在 Vault 根目录执行一次的 shell 命令；输出记录在同步报告中",
+      this.plugin.settings.preRunHook,
+      true,
+      async (hook) => {
+        this.plugin.settings.preRunHook = hook;
+        await this.plugin.saveSettings();
+      }
+    );
+    addHookSettings(
+      containerEl,
+      "全局同步后钩子",
+      "全部任务结束后执行一次，例如触发 Git 提交；EXTERNAL_SYNC_STATUS 为 ok 或 failed，EXTERNAL_SYNC_CHANGED_FILES 为本次复制的 Vault 内路径（每行一个）",
+      this.plugin.settings.postRunHook,
+      false,
+      async (hook) => {
+        this.plugin.settings.postRunHook = hook;
+        await this.plugin.saveSettings();
+      }
+    );
+
     new Setting(containerEl)
       .setName("增量判断方式")
       .setDesc("mtime 表示按修改时间与大小跳过，hash 更准确但更慢")
@@ -642,6 +6144,30 @@ class ExternalSyncSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("同步状态缓存")
+      .setDesc("记录每个文件的大小、修改时间、inode 与哈希，避免每次重复计算；缓存可疑时可重建")
+      .addButton((button) =>
+        button.setButtonText("重建缓存").onClick(() => {
+          this.plugin.rebuildAllTaskStates();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("镜像模式删除方式")
+      .setDesc("镜像模式下，源中已不存在的目标文件如何移除")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("system-trash", "移到系统回收站")
+          .addOption("obsidian-trash", "移到 Obsidian 回收站（.trash）")
+          .addOption("delete", "直接删除")
+          .setValue(this.plugin.settings.mirrorDeleteMode)
+          .onChange(async (value) => {
+            this.plugin.settings.mirrorDeleteMode = value as ExternalSyncSettings["mirrorDeleteMode"];
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName("排除规则")
       .setDesc("每行一个 glob 规则，如 **/node_modules/** 或 **/.DS_Store")
@@ -657,6 +6183,88 @@ class ExternalSyncSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("包含规则")
+      .setDesc("每行一个 glob 规则，留空表示同步全部；填写后仅同步至少匹配一条且未被排除的文件")
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("**/*.json")
+          .setValue(this.plugin.settings.includePatterns.join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings.includePatterns = value
+              .split("\n")
+              .map((line) => line.trim())
+              .filter((line) => line.length > 0);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("遵循 .gitignore / .ignore")
+      .setDesc("同步源目录时读取其中的 .gitignore 与 .ignore 文件，跳过被忽略的文件（如构建产物）")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.respectIgnoreFiles).onChange(async (value) => {
+          this.plugin.settings.respectIgnoreFiles = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("敏感信息检测")
+      .setDesc("写入 Vault 前扫描文本文件中的私钥、API Key、password= 等；任务可单独设置处理方式")
+      .addDropdown((dropdown) => {
+        for (const [value, label] of Object.entries(SECRET_ACTION_LABELS)) {
+          dropdown.addOption(value, label);
+        }
+        dropdown.setValue(this.plugin.settings.secretAction).onChange(async (value) => {
+          this.plugin.settings.secretAction = value as SecretAction;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("阻止无法扫描的文件")
+      .setDesc(
+        `处理方式为「阻止同步」时，超过 ${formatBytes(MAX_SECRET_SCAN_BYTES)} 的文件和二进制文件也不写入 Vault；关闭时照常同步，并在同步报告中提示未扫描`
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.blockUnscannedFiles).onChange(async (value) => {
+          this.plugin.settings.blockUnscannedFiles = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("自定义敏感信息规则")
+      .setDesc("每行一个正则表达式，命中内容按敏感信息处理（脱敏时替换整段匹配）")
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("INTERNAL-[0-9a-f]{32}")
+          .setValue(this.plugin.settings.secretPatterns.join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings.secretPatterns = value
+              .split("\n")
+              .map((line) => line.trim())
+              .filter((line) => line.length > 0);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("加密口令")
+      .setDesc("用于启用加密存储的任务；仅保存在本机，不写入插件配置。遗失口令将无法解密已有备份")
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.setValue(this.plugin.getPassphrase()).onChange((value) => {
+          this.plugin.setPassphrase(value);
+        });
+      })
+      .addButton((button) =>
+        button.setButtonText("解密还原").onClick(() => {
+          this.plugin.showDecryptModal();
+        })
+      );
+
     const testWrapper = containerEl.createDiv();
     testWrapper.addClass("external-sync-test-row");
     const testInput = testWrapper.createEl("input", {
@@ -670,23 +6278,40 @@ class ExternalSyncSettingTab extends PluginSettingTab {
       const option = testSelect.createEl("option", { text: task.name || task.id });
       option.value = task.id;
     });
-    const testButton = testWrapper.createEl("button", { text: "测试排除规则" });
+    const testButton = testWrapper.createEl("button", { text: "测试规则" });
     const pickFileButton = testWrapper.createEl("button", { text: "选择文件" });
     const pickFolderButton = testWrapper.createEl("button", { text: "选择文件夹" });
     const testNote = containerEl.createDiv();
     testNote.addClass("external-sync-inline-note");
-    testNote.setText("示例：node_modules/react/index.js");
+    testNote.setText("示例：node_modules/react/index.js；选择任务后按该任务的生效规则测试");
 
-    testButton.addEventListener("click", () => {
+    testButton.addEventListener("click", async () => {
       const value = testInput.value.trim();
       if (!value) {
         new Notice("请先输入要测试的路径。");
         return;
       }
       const relPosix = value.split(path.sep).join("/");
-      const matched = micromatch.isMatch(relPosix, this.plugin.settings.excludePatterns, { dot: true });
-      if (matched) {
+      const isDirectory = relPosix.endsWith("/");
+      const relPath = relPosix.replace(/\/+$/, "");
+      const task = this.plugin.settings.tasks.find((t) => t.id === testSelect.value);
+      const rules = this.plugin.getEffectiveRules(task);
+      let ignoreRules: IgnoreRule[] = [];
+      const source = task ? this.plugin.resolveSourcePath(task) : null;
+      if (source && rules.respectIgnoreFiles) {
+        ignoreRules = await this.plugin.loadIgnoreRulesForPath(source, relPath);
+      }
+      const segments = relPath.split("/");
+      const ancestorIgnored = segments
+        .slice(0, -1)
+        .some((_, index) => this.plugin.matchRules(segments.slice(0, index + 1).join("/"), true, rules, ignoreRules) !== null);
+      const reason = ancestorIgnored ? "excluded" : this.plugin.matchRules(relPath, isDirectory, rules, ignoreRules);
+      if (reason === "excluded") {
         new Notice("该路径会被排除。");
+      } else if (reason === "ignored") {
+        new Notice("该路径被 .gitignore / .ignore 忽略。");
+      } else if (reason === "not-included") {
+        new Notice("该路径未命中包含规则，不会被同步。");
       } else {
         new Notice("该路径不会被排除。");
       }
@@ -695,10 +6320,10 @@ class ExternalSyncSettingTab extends PluginSettingTab {
     const resolveRelative = (absolute: string) => {
       const selectedTaskId = testSelect.value;
       const task = this.plugin.settings.tasks.find((t) => t.id === selectedTaskId);
-      if (!task || !task.sourcePath) {
+      const source = task ? this.plugin.resolveSourcePath(task) : null;
+      if (!source) {
         return absolute;
       }
-      const source = path.normalize(task.sourcePath);
       let base = source;
       try {
         const stat = fs.statSync(source);
@@ -737,9 +6362,15 @@ class ExternalSyncSettingTab extends PluginSettingTab {
     }
 
     this.plugin.settings.tasks.forEach((task, index) => {
+      const modified = this.plugin.getLocallyModified(task);
       const setting = new Setting(tasksContainer)
         .setName(task.name || `任务 ${index + 1}`)
-        .setDesc(`源: ${task.sourcePath || "(未填写)"} → 目标: ${task.targetPath || "(未填写)"}`);
+        .setDesc(
+          `源: ${(task.command ? `$ ${task.command.command}` : task.sources ? task.sources.join("、") : task.sourcePath) || "(未填写)"} → 目标: ${task.targetPath || "(未填写)"} · ${this.plugin.describeNextRun(task)}${modified.length > 0 ? ` · ${modified.length} 个文件在 Vault 中被修改` : ""}`
+        );
+      if (modified.length > 0) {
+        setting.descEl.setAttr("title", modified.join("\n"));
+      }
 
       setting.addButton((button) => {
         button.setButtonText("立即同步");
@@ -748,6 +6379,13 @@ class ExternalSyncSettingTab extends PluginSettingTab {
         });
       });
 
+      setting.addButton((button) => {
+        button.setButtonText("预览");
+        button.onClick(() => {
+          this.plugin.previewSingleTask(task);
+        });
+      });
+
       setting.addToggle((toggle) =>
         toggle.setValue(task.enabled).onChange(async (value) => {
           task.enabled = value;
@@ -755,6 +6393,36 @@ class ExternalSyncSettingTab extends PluginSettingTab {
         })
       );
 
+      if (task.encrypt) {
+        setting.addExtraButton((button) => {
+          button.setIcon("unlock");
+          button.setTooltip("解密还原");
+          button.onClick(() => {
+            this.plugin.showDecryptModal(task);
+          });
+        });
+      }
+
+      if (!task.command) {
+        setting.addExtraButton((button) => {
+          button.setIcon("rotate-ccw");
+          button.setTooltip("还原到外部位置");
+          button.onClick(() => {
+            this.plugin.showRestoreModal(task);
+          });
+        });
+      }
+
+      if (task.versions?.enabled) {
+        setting.addExtraButton((button) => {
+          button.setIcon("history");
+          button.setTooltip("历史版本");
+          button.onClick(() => {
+            this.plugin.showVersionsModal(task);
+          });
+        });
+      }
+
       setting.addExtraButton((button) => {
         button.setIcon("pencil");
         button.setTooltip("编辑");
@@ -782,7 +6450,8 @@ class ExternalSyncSettingTab extends PluginSettingTab {
             name: "",
             sourcePath: "",
             targetPath: "",
-            enabled: true
+            enabled: true,
+            syncMode: "additive"
           };
           this.plugin.settings.tasks.push(task);
           await this.plugin.saveSettings();
@@ -811,42 +6480,156 @@ class ExternalSyncSettingTab extends PluginSettingTab {
           );
 
         new Setting(contentEl)
-          .setName("源路径")
-          .setDesc("电脑上的文件或文件夹绝对路径")
-          .addText((text) =>
-            text.setValue(task.sourcePath).onChange(async (value) => {
-              task.sourcePath = value;
-              await plugin.saveSettings();
-            })
-          )
-          .addExtraButton((button) => {
-            button.setIcon("file-plus");
-            button.setTooltip("选择文件");
-            button.onClick(async () => {
-              const selected = await tab.pickExternalPath("file");
-              if (selected) {
-                task.sourcePath = selected;
+          .setName("源类型")
+          .setDesc("多个路径 / glob：一个任务同步多处文件，例如 ~/.*rc、~/.gitconfig；命令输出：把命令的标准输出写入目标文件")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("single", "单个文件或文件夹")
+              .addOption("multi", "多个路径 / glob")
+              .addOption("command", "命令输出")
+              .setValue(task.command ? "command" : task.sources ? "multi" : "single")
+              .onChange(async (value) => {
+                task.sources =
+                  value === "multi" ? task.sources ?? (task.sourcePath.trim() ? [task.sourcePath.trim()] : []) : undefined;
+                task.command =
+                  value === "command"
+                    ? task.command ?? { command: "", timeoutSeconds: DEFAULT_COMMAND_TIMEOUT_SECONDS }
+                    : undefined;
                 await plugin.saveSettings();
                 this.render();
-              }
-            });
-          })
-          .addExtraButton((button) => {
-            button.setIcon("folder-plus");
-            button.setTooltip("选择文件夹");
-            button.onClick(async () => {
-              const selected = await tab.pickExternalPath("folder");
-              if (selected) {
-                task.sourcePath = selected;
+              })
+          );
+
+        if (task.command) {
+          const command = task.command;
+          new Setting(contentEl)
+            .setName("命令")
+            .setDesc("通过系统 shell 执行，标准输出写入目标文件；输出未变化时不会重写")
+            .addTextArea((text) =>
+              text
+                .setPlaceholder("crontab -l")
+                .setValue(command.command)
+                .onChange(async (value) => {
+                  command.command = value;
+                  await plugin.saveSettings();
+                })
+            );
+
+          new Setting(contentEl)
+            .setName("工作目录")
+            .setDesc("留空表示用户主目录；支持 ~、$HOME、${env:变量名}")
+            .addText((text) =>
+              text.setValue(command.cwd ?? "").onChange(async (value) => {
+                command.cwd = value.trim() || undefined;
                 await plugin.saveSettings();
-                this.render();
+              })
+            );
+
+          new Setting(contentEl)
+            .setName("超时（秒）")
+            .setDesc("超时后终止命令并记为失败")
+            .addText((text) =>
+              text
+                .setPlaceholder(String(DEFAULT_COMMAND_TIMEOUT_SECONDS))
+                .setValue(String(command.timeoutSeconds ?? DEFAULT_COMMAND_TIMEOUT_SECONDS))
+                .onChange(async (value) => {
+                  const seconds = Number(value);
+                  command.timeoutSeconds =
+                    Number.isFinite(seconds) && seconds > 0 ? Math.floor(seconds) : DEFAULT_COMMAND_TIMEOUT_SECONDS;
+                  await plugin.saveSettings();
+                })
+            );
+        } else if (task.sources) {
+          new Setting(contentEl)
+            .setName("源路径列表")
+            .setDesc("每行一个绝对路径或 glob 规则；支持 ~、$HOME、${env:变量名}、{hostname}、{platform}、{date}")
+            .addTextArea((text) =>
+              text
+                .setPlaceholder("~/.*rc\n~/.gitconfig")
+                .setValue(task.sources?.join("\n") ?? "")
+                .onChange(async (value) => {
+                  task.sources = value
+                    .split("\n")
+                    .map((line) => line.trim())
+                    .filter((line) => line.length > 0);
+                  await plugin.saveSettings();
+                })
+            );
+
+          new Setting(contentEl)
+            .setName("相对路径基准")
+            .setDesc("匹配到的文件按相对此文件夹的路径写入目标；留空表示所有规则的公共父目录")
+            .addText((text) =>
+              text
+                .setPlaceholder(plugin.resolveSourcePath(task) ?? "")
+                .setValue(task.sourceBase ?? "")
+                .onChange(async (value) => {
+                  task.sourceBase = value.trim() || undefined;
+                  await plugin.saveSettings();
+                })
+            );
+
+          new Setting(contentEl).addButton((button) =>
+            button.setButtonText("预览匹配的文件").onClick(async () => {
+              preview.empty();
+              const matched = await plugin.matchSourcePatterns(task);
+              if (!matched.ok) {
+                preview.createEl("p", { text: matched.reason }).addClass("external-sync-inline-note");
+                return;
+              }
+              preview
+                .createEl("p", { text: `基准：${matched.base}，匹配 ${matched.matches.length} 项` })
+                .addClass("external-sync-inline-note");
+              const list = preview.createEl("ul");
+              for (const match of matched.matches.slice(0, 100)) {
+                const relPath = path.relative(matched.base, match);
+                list.createEl("li", { text: relPath.startsWith("..") ? `${match}（不在基准目录内，将跳过）` : relPath });
+              }
+              if (matched.matches.length > 100) {
+                list.createEl("li", { text: `……还有 ${matched.matches.length - 100} 项` });
               }
+            })
+          );
+          const preview = contentEl.createDiv();
+        } else {
+          new Setting(contentEl)
+            .setName("源路径")
+            .setDesc("电脑上的文件或文件夹绝对路径；支持 ~、$HOME、${env:变量名}、{hostname}、{platform}、{date}")
+            .addText((text) =>
+              text.setValue(task.sourcePath).onChange(async (value) => {
+                task.sourcePath = value;
+                await plugin.saveSettings();
+              })
+            )
+            .addExtraButton((button) => {
+              button.setIcon("file-plus");
+              button.setTooltip("选择文件");
+              button.onClick(async () => {
+                const selected = await tab.pickExternalPath("file");
+                if (selected) {
+                  task.sourcePath = selected;
+                  await plugin.saveSettings();
+                  this.render();
+                }
+              });
+            })
+            .addExtraButton((button) => {
+              button.setIcon("folder-plus");
+              button.setTooltip("选择文件夹");
+              button.onClick(async () => {
+                const selected = await tab.pickExternalPath("folder");
+                if (selected) {
+                  task.sourcePath = selected;
+                  await plugin.saveSettings();
+                  this.render();
+                }
+              });
             });
-          });
+        }
 
         new Setting(contentEl)
           .setName("目标路径")
-          .setDesc("Vault 内相对路径，例如 Backups/VSCode/settings.json")
+          .setDesc("Vault 内相对路径，例如 Backups/VSCode/settings.json；支持 {hostname}、{platform}、{date}")
           .addText((text) =>
             text.setValue(task.targetPath).onChange(async (value) => {
               task.targetPath = value;
@@ -878,6 +6661,340 @@ class ExternalSyncSettingTab extends PluginSettingTab {
             });
           });
 
+        new Setting(contentEl)
+          .setName("仅在这些设备上运行")
+          .setDesc(`每行一个主机名，留空表示所有设备；本机为 ${plugin.getDeviceName()}`)
+          .addTextArea((text) =>
+            text
+              .setValue((task.hostnames ?? []).join("\n"))
+              .onChange(async (value) => {
+                task.hostnames = value
+                  .split("\n")
+                  .map((line) => line.trim())
+                  .filter((line) => line.length > 0);
+                await plugin.saveSettings();
+              })
+          );
+
+        new Setting(contentEl)
+          .setName("按设备覆盖源路径")
+          .setDesc("每行一条「主机名 = 源路径」，匹配本机主机名时替代上面的源路径")
+          .addTextArea((text) =>
+            text
+              .setPlaceholder(`${plugin.getDeviceName()} = ~/.config/app`)
+              .setValue(
+                Object.entries(task.deviceSources ?? {})
+                  .map(([name, value]) => `${name} = ${value}`)
+                  .join("\n")
+              )
+              .onChange(async (value) => {
+                const overrides: Record<string, string> = {};
+                for (const line of value.split("\n")) {
+                  const separator = line.indexOf("=");
+                  const name = line.slice(0, separator).trim();
+                  const sourcePath = line.slice(separator + 1).trim();
+                  if (separator > 0 && name && sourcePath) {
+                    overrides[name] = sourcePath;
+                  }
+                }
+                task.deviceSources = overrides;
+                await plugin.saveSettings();
+              })
+          );
+
+        new Setting(contentEl)
+          .setName("同步模式")
+          .setDesc("增量：只复制新增/变更文件；镜像：同时移除源中已删除的文件（遵循排除规则）；快照：每次保存一份完整副本")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("additive", "增量（保留目标中多余文件）")
+              .addOption("mirror", "镜像（同步删除）")
+              .addOption("snapshot", "快照（每次写入带时间的子文件夹）")
+              .addOption("bidirectional", "双向（两侧改动互相同步）")
+              .setValue(task.syncMode ?? "additive")
+              .onChange(async (value) => {
+                task.syncMode = value as SyncTask["syncMode"];
+                await plugin.saveSettings();
+                this.render();
+              })
+          );
+
+        if (task.syncMode === "bidirectional") {
+          contentEl.createDiv({
+            cls: "external-sync-inline-note",
+            text: "记录两侧上次同步时的状态，只同步改动过的一侧；两侧都改动时不覆盖，而是在 Vault 中生成 *.conflict-时间戳 副本，通过「处理双向同步冲突」命令解决。覆盖或删除外部文件前会备份到插件目录下的 external-backups。不支持加密、渲染为笔记和脱敏。"
+          });
+        }
+
+        if (task.syncMode === "snapshot") {
+          const retention = { ...DEFAULT_SNAPSHOT_RETENTION, ...task.snapshotRetention };
+          contentEl.createDiv({
+            cls: "external-sync-inline-note",
+            text: "每次同步写入 目标路径/YYYY-MM-DDTHHmm/，与上一快照相同的文件使用硬链接，不额外占用空间。"
+          });
+          const retentionSetting = (name: string, key: keyof SnapshotRetention) =>
+            new Setting(contentEl)
+              .setName(name)
+              .setDesc("0 表示不按此周期保留；三项均为 0 时保留全部快照")
+              .addText((text) =>
+                text.setValue(String(retention[key])).onChange(async (value) => {
+                  const count = Number(value);
+                  retention[key] = Number.isFinite(count) ? Math.max(0, Math.floor(count)) : 0;
+                  task.snapshotRetention = { ...retention };
+                  await plugin.saveSettings();
+                })
+              );
+          retentionSetting("保留每日快照数", "daily");
+          retentionSetting("保留每周快照数", "weekly");
+          retentionSetting("保留每月快照数", "monthly");
+        }
+
+        new Setting(contentEl)
+          .setName("增量判断方式")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("", `跟随全局（${plugin.settings.compareMode}）`)
+              .addOption("mtime", "mtime（大小 + 修改时间）")
+              .addOption("hash", "hash（SHA-256）")
+              .setValue(task.compareMode ?? "")
+              .onChange(async (value) => {
+                task.compareMode = value ? (value as "mtime" | "hash") : undefined;
+                await plugin.saveSettings();
+              })
+          );
+
+        this.renderPatternSetting("排除规则", "每行一个 glob 规则，如 **/*.log", "excludePatterns", "excludeMode");
+        this.renderPatternSetting("包含规则", "每行一个 glob 规则，如 **/*.json", "includePatterns", "includeMode");
+
+        new Setting(contentEl)
+          .setName("遵循 .gitignore / .ignore")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("", `跟随全局（${plugin.settings.respectIgnoreFiles ? "开启" : "关闭"}）`)
+              .addOption("on", "开启")
+              .addOption("off", "关闭")
+              .setValue(task.respectIgnoreFiles === undefined ? "" : task.respectIgnoreFiles ? "on" : "off")
+              .onChange(async (value) => {
+                task.respectIgnoreFiles = value ? value === "on" : undefined;
+                await plugin.saveSettings();
+              })
+          );
+
+        new Setting(contentEl)
+          .setName("敏感信息检测")
+          .setDesc("阻止：含敏感信息的文件不写入 Vault；脱敏：写入时替换为 [REDACTED]；仅警告：照常写入并记录到报告")
+          .addDropdown((dropdown) => {
+            dropdown.addOption("", `跟随全局（${SECRET_ACTION_LABELS[plugin.settings.secretAction]}）`);
+            for (const [value, label] of Object.entries(SECRET_ACTION_LABELS)) {
+              dropdown.addOption(value, label);
+            }
+            dropdown.setValue(task.secretAction ?? "").onChange(async (value) => {
+              task.secretAction = value ? (value as SecretAction) : undefined;
+              await plugin.saveSettings();
+            });
+          });
+
+        new Setting(contentEl)
+          .setName("定时")
+          .setDesc("单独设置本任务的定时规则，覆盖全局定时同步")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("", "跟随全局")
+              .addOption("none", "不定时")
+              .addOption("interval", "间隔")
+              .addOption("daily", "每天固定时间")
+              .addOption("cron", "Cron 表达式")
+              .setValue(task.schedule?.mode ?? "")
+              .onChange(async (value) => {
+                task.schedule = value ? { ...task.schedule, mode: value as TaskSchedule["mode"] } : undefined;
+                await plugin.saveSettings();
+                this.render();
+              })
+          );
+
+        const schedule = task.schedule;
+        let nextRunNote: HTMLElement | null = null;
+        const updateNextRun = () => nextRunNote?.setText(plugin.describeNextRun(task));
+        if (schedule?.mode === "interval") {
+          new Setting(contentEl)
+            .setName("间隔（分钟）")
+            .setDesc("至少 1 分钟")
+            .addText((text) =>
+              text.setValue(String(schedule.intervalMinutes ?? 60)).onChange(async (value) => {
+                const minutes = Number(value);
+                schedule.intervalMinutes = Number.isFinite(minutes) ? minutes : 1;
+                await plugin.saveSettings();
+                updateNextRun();
+              })
+            );
+        } else if (schedule?.mode === "daily") {
+          new Setting(contentEl)
+            .setName("每日时间")
+            .setDesc("24 小时制，例如 09:00 或 21:30")
+            .addText((text) =>
+              text.setValue(schedule.dailyTime ?? "09:00").onChange(async (value) => {
+                schedule.dailyTime = value;
+                await plugin.saveSettings();
+                updateNextRun();
+              })
+            );
+        } else if (schedule?.mode === "cron") {
+          new Setting(contentEl)
+            .setName("Cron 表达式")
+            .setDesc("分 时 日 月 周，例如 0 9 * * 1-5 表示工作日 09:00")
+            .addText((text) =>
+              text
+                .setPlaceholder("0 9 * * *")
+                .setValue(schedule.cron ?? "")
+                .onChange(async (value) => {
+                  schedule.cron = value.trim();
+                  await plugin.saveSettings();
+                  updateNextRun();
+                })
+            );
+        }
+        nextRunNote = contentEl.createDiv({ cls: "external-sync-inline-note" });
+        updateNextRun();
+
+        if (!task.sources && !task.command) {
+          new Setting(contentEl)
+            .setName("实时监听")
+            .setDesc("监听源路径变化并增量同步改动的文件；监听失效时回退为按间隔定时同步")
+            .addToggle((toggle) =>
+              toggle.setValue(Boolean(task.watchSource)).onChange(async (value) => {
+                task.watchSource = value;
+                await plugin.saveSettings();
+              })
+            );
+        }
+
+        if (!task.command && task.syncMode !== "bidirectional") {
+          new Setting(contentEl)
+            .setName("渲染为笔记")
+            .setDesc("为文本文件生成 <文件名>.md（frontmatter + 代码块），便于 Obsidian 搜索、链接与嵌入；启用加密时不生效")
+            .addDropdown((dropdown) =>
+              dropdown
+                .addOption("off", "关闭")
+                .addOption("alongside", "与原文件并存")
+                .addOption("replace", "替代原文件")
+                .setValue(task.noteMode ?? "off")
+                .onChange(async (value) => {
+                  task.noteMode = value as NoteMode;
+                  await plugin.saveSettings();
+                  this.render();
+                })
+            );
+
+          if (task.noteMode && task.noteMode !== "off") {
+            new Setting(contentEl)
+              .setName("笔记文件范围")
+              .setDesc("每行一个 glob 规则；留空表示常见文本格式（json、sh、conf、yaml 等）")
+              .addTextArea((text) =>
+                text
+                  .setPlaceholder("**/*.json")
+                  .setValue((task.notePatterns ?? []).join("\n"))
+                  .onChange(async (value) => {
+                    task.notePatterns = value
+                      .split("\n")
+                      .map((line) => line.trim())
+                      .filter((line) => line.length > 0);
+                    await plugin.saveSettings();
+                  })
+              );
+          }
+
+          new Setting(contentEl)
+            .setName("生成索引笔记")
+            .setDesc(`在目标目录生成 ${INDEX_NOTE_NAME}，按文件夹列出已同步文件及排除项；文件集合变化时才会重写`)
+            .addToggle((toggle) =>
+              toggle.setValue(Boolean(task.indexNote)).onChange(async (value) => {
+                task.indexNote = value;
+                await plugin.saveSettings();
+              })
+            );
+        }
+
+        new Setting(contentEl)
+          .setName("加密存储")
+          .setDesc(
+            "写入目标时使用 AES-256-GCM 加密并添加 .enc 后缀；口令在全局设置中填写。开启后，目标中已有的未加密副本会在下次同步时删除"
+          )
+          .addToggle((toggle) =>
+            toggle.setValue(Boolean(task.encrypt)).onChange(async (value) => {
+              task.encrypt = value;
+              await plugin.saveSettings();
+            })
+          );
+
+        new Setting(contentEl)
+          .setName("保留历史版本")
+          .setDesc(`覆盖或删除目标文件前，先把旧文件移到目标目录下的 ${VERSIONS_DIR} 文件夹`)
+          .addToggle((toggle) =>
+            toggle.setValue(Boolean(task.versions?.enabled)).onChange(async (value) => {
+              task.versions = { ...DEFAULT_VERSION_POLICY, ...task.versions, enabled: value };
+              await plugin.saveSettings();
+              this.render();
+            })
+          );
+
+        const versions = task.versions;
+        if (versions?.enabled) {
+          const numberSetting = (name: string, desc: string, key: "maxCount" | "maxAgeDays" | "maxSizeMB") =>
+            new Setting(contentEl)
+              .setName(name)
+              .setDesc(desc)
+              .addText((text) =>
+                text.setValue(String(versions[key])).onChange(async (value) => {
+                  const count = Number(value);
+                  versions[key] = Number.isFinite(count) ? Math.max(0, count) : 0;
+                  await plugin.saveSettings();
+                })
+              );
+          numberSetting("每个文件最多保留版本数", "0 表示不限制", "maxCount");
+          numberSetting("最长保留天数", "超过天数的版本会被清理，0 表示不限制", "maxAgeDays");
+          numberSetting("版本总大小上限（MB）", "超出后从最旧的版本开始清理，0 表示不限制", "maxSizeMB");
+        }
+
+        if (!task.command && task.syncMode !== "snapshot" && task.syncMode !== "bidirectional") {
+          new Setting(contentEl)
+            .setName("Vault 中的副本被修改时")
+            .setDesc(
+              `目标文件在上次同步后被改动（例如在 Obsidian 中添加批注）时的处理方式；备份会移到 ${VERSIONS_DIR} 并带 .${LOCAL_EDIT_VERSION_LABEL} 标记。结果会列在同步报告中`
+            )
+            .addDropdown((dropdown) => {
+              for (const [value, label] of Object.entries(LOCAL_EDIT_LABELS)) {
+                dropdown.addOption(value, label);
+              }
+              dropdown.setValue(task.onLocalEdit ?? "overwrite").onChange(async (value) => {
+                task.onLocalEdit = value as LocalEditPolicy;
+                await plugin.saveSettings();
+              });
+            });
+        }
+
+        addHookSettings(
+          contentEl,
+          "同步前钩子",
+          "同步此任务前在 Vault 根目录执行的 shell 命令，例如 pg_dump 导出数据库或停止占用文件的服务；EXTERNAL_SYNC_SOURCE / EXTERNAL_SYNC_TARGET 为解析后的源与目标路径",
+          task.preSyncHook,
+          true,
+          async (hook) => {
+            task.preSyncHook = hook;
+            await plugin.saveSettings();
+          }
+        );
+        addHookSettings(
+          contentEl,
+          "同步后钩子",
+          "同步此任务后执行，例如运行格式化工具；EXTERNAL_SYNC_STATUS 为 ok 或 failed，EXTERNAL_SYNC_CHANGED_FILES / EXTERNAL_SYNC_DELETED_FILES 为本次复制与删除的相对路径（每行一个）",
+          task.postSyncHook,
+          false,
+          async (hook) => {
+            task.postSyncHook = hook;
+            await plugin.saveSettings();
+          }
+        );
+
         new Setting(contentEl)
           .setName("启用")
           .addToggle((toggle) =>
@@ -896,6 +7013,39 @@ class ExternalSyncSettingTab extends PluginSettingTab {
           );
       }
 
+      private renderPatternSetting(
+        name: string,
+        placeholder: string,
+        patternsKey: "excludePatterns" | "includePatterns",
+        modeKey: "excludeMode" | "includeMode"
+      ) {
+        new Setting(this.contentEl)
+          .setName(name)
+          .setDesc("追加：在全局规则基础上追加；替换：仅使用本任务的规则")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("append", "追加到全局")
+              .addOption("replace", "替换全局")
+              .setValue(task[modeKey] ?? "append")
+              .onChange(async (value) => {
+                task[modeKey] = value as "append" | "replace";
+                await plugin.saveSettings();
+              })
+          )
+          .addTextArea((text) =>
+            text
+              .setPlaceholder(placeholder)
+              .setValue((task[patternsKey] ?? []).join("\n"))
+              .onChange(async (value) => {
+                task[patternsKey] = value
+                  .split("\n")
+                  .map((line) => line.trim())
+                  .filter((line) => line.length > 0);
+                await plugin.saveSettings();
+              })
+          );
+      }
+
       onOpen() {
         this.render();
       }
@@ -1080,6 +7230,7 @@ class ExternalSyncSettingTab extends PluginSettingTab {
         confirmButton.addEventListener("click", async () => {
           plugin.settings.tasks.splice(index, 1);
           await plugin.saveSettings();
+          await plugin.removeTaskState(task.id);
           this.close();
         });
         const cancelButton = actions.createEl("button", { text: "取消" });